@@ -0,0 +1,256 @@
+// assets.ts - 下载图片和附件到本地 assets/ 目录
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { join, posix } from 'path';
+import { replaceMarkdownTargets } from './links';
+import type { RetryInfo } from './retry';
+
+/**
+ * 资源目录名,位于 <output>/<域名>/ 下
+ */
+export const ASSETS_DIR = 'assets';
+
+/**
+ * 默认的单个资源大小上限（字节）
+ */
+export const DEFAULT_MAX_ASSET_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 资源下载选项
+ */
+export interface AssetOptions {
+  maxSize?: number;        // 单个资源大小上限（字节）
+  extensions?: string[];   // 需要下载的链接文件扩展名 (例如 ["pdf", "zip"]),图片总是下载
+}
+
+/**
+ * 图片扩展名 (引用式链接和普通链接指向这些文件时也视为图片)
+ */
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'avif', 'bmp', 'ico']);
+
+/**
+ * Content-Type 对应的文件扩展名 (URL 中没有扩展名时使用)
+ */
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+};
+
+/**
+ * 获取 URL 路径中的扩展名 (小写,不含点)
+ */
+function urlExtension(url: URL): string | undefined {
+  const match = url.pathname.match(/\.([a-z0-9]{1,5})$/i);
+  return match ? match[1]!.toLowerCase() : undefined;
+}
+
+/**
+ * 发送资源请求的函数 (使用抓取任务的限速、重试和认证设置),每次重试前调用 onRetry
+ */
+export type AssetFetcher = (url: string, onRetry: (info: RetryInfo) => void) => Promise<Response>;
+
+/**
+ * 读取响应内容,超过大小上限时停止读取并取消响应
+ * @param response 响应
+ * @param maxSize 大小上限（字节）
+ * @returns 响应内容,超过大小上限时返回 null
+ */
+async function readLimited(response: Response, maxSize: number): Promise<Uint8Array | null> {
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 资源下载器
+ * 同一次抓取中的所有页面共享,按 URL 缓存下载结果,按内容哈希去重文件
+ */
+export class AssetStore {
+  private downloads = new Map<string, Promise<string | null>>();
+  private files = new Set<string>();
+  private tooLarge = new Set<string>();
+  private failed = new Set<string>();
+  private retries = 0;
+  private maxSize: number;
+  private extensions: Set<string>;
+
+  /**
+   * @param outputDir 输出目录 (<output>/<域名>)
+   * @param options 资源下载选项
+   */
+  constructor(private outputDir: string, options: AssetOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_ASSET_SIZE;
+    this.extensions = new Set((options.extensions ?? []).map(ext => ext.replace(/^\./, '').toLowerCase()));
+  }
+
+  /**
+   * 判断链接目标是否需要下载
+   */
+  private shouldDownload(url: URL, isImage: boolean): boolean {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return false;
+    }
+    if (isImage) {
+      return true;
+    }
+    const ext = urlExtension(url);
+    return ext !== undefined && (IMAGE_EXTENSIONS.has(ext) || this.extensions.has(ext));
+  }
+
+  /**
+   * 下载单个资源并保存到 assets/ 目录
+   * @param url 资源 URL
+   * @param fetchAsset 发送请求的函数
+   * @returns 相对于输出目录的文件路径,失败或超过大小限制时返回 null
+   */
+  private async download(url: string, fetchAsset: AssetFetcher): Promise<string | null> {
+    try {
+      // 资源的重试单独统计,不计入页面的重试次数
+      const response = await fetchAsset(url, () => this.retries++);
+      if (!response.ok) {
+        await response.body?.cancel();
+        this.failed.add(url);
+        return null;
+      }
+
+      // 先根据 Content-Length 判断,避免下载过大的文件
+      const contentLength = Number(response.headers.get('content-length'));
+      if (contentLength > this.maxSize) {
+        await response.body?.cancel();
+        this.tooLarge.add(url);
+        return null;
+      }
+
+      // 没有 Content-Length 或与实际大小不符时,边下载边检查大小
+      const bytes = await readLimited(response, this.maxSize);
+      if (!bytes) {
+        this.tooLarge.add(url);
+        return null;
+      }
+
+      const contentType = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase() ?? '';
+      const ext = urlExtension(new URL(url)) ?? CONTENT_TYPE_EXTENSIONS[contentType] ?? 'bin';
+
+      // 以内容哈希命名,相同内容的资源只保存一份
+      const hash = createHash('sha256').update(bytes).digest('hex').slice(0, 16);
+      const file = `${ASSETS_DIR}/${hash}.${ext}`;
+      const filePath = join(this.outputDir, file);
+
+      if (!existsSync(filePath)) {
+        mkdirSync(join(this.outputDir, ASSETS_DIR), { recursive: true });
+        await Bun.write(filePath, bytes);
+      }
+
+      this.files.add(file);
+      return file;
+    } catch (error) {
+      this.failed.add(url);
+      return null;
+    }
+  }
+
+  /**
+   * 下载 Markdown 中引用的图片和附件,并将引用改写为本地相对路径
+   * 下载失败或超过大小限制的资源保留原地址 (相对地址会转换为绝对地址)
+   * @param markdown Markdown 内容
+   * @param baseUrl 解析相对地址时使用的基础 URL (页面或原生 Markdown 的地址)
+   * @param fromFile 当前文件路径 (相对于输出目录)
+   * @param fetchAsset 发送请求的函数
+   * @returns 改写后的内容
+   */
+  async localize(
+    markdown: string,
+    baseUrl: string,
+    fromFile: string,
+    fetchAsset: AssetFetcher
+  ): Promise<string> {
+    // 第一遍: 收集需要下载的资源
+    const targets = new Map<string, string>(); // 原始目标 → 绝对 URL
+    replaceMarkdownTargets(markdown, (target, isImage) => {
+      try {
+        const url = new URL(target, baseUrl);
+        if (this.shouldDownload(url, isImage)) {
+          url.hash = '';
+          targets.set(target, url.href);
+        }
+      } catch (error) {
+        // 跳过无效的地址
+      }
+      return undefined;
+    });
+
+    if (targets.size === 0) {
+      return markdown;
+    }
+
+    // 下载 (同一 URL 只下载一次)
+    const localFiles = new Map<string, string>();
+    await Promise.all([...targets].map(async ([target, url]) => {
+      let download = this.downloads.get(url);
+      if (!download) {
+        download = this.download(url, fetchAsset);
+        this.downloads.set(url, download);
+      }
+      const file = await download;
+      if (file) {
+        localFiles.set(target, file);
+      }
+    }));
+
+    // 第二遍: 改写引用,未能下载的资源改为绝对地址 (保留 #fragment)
+    const fromDir = posix.dirname(fromFile);
+    return replaceMarkdownTargets(markdown, target => {
+      const file = localFiles.get(target);
+      if (file) {
+        return posix.relative(fromDir, file);
+      }
+      return targets.has(target) ? new URL(target, baseUrl).href : undefined;
+    });
+  }
+
+  /**
+   * 已下载的资源文件 (相对于输出目录)
+   */
+  localFiles(): string[] {
+    return [...this.files];
+  }
+
+  /**
+   * 下载统计,没有任何资源时返回 null
+   */
+  summary(): string | null {
+    const parts: string[] = [];
+    if (this.files.size > 0) parts.push(`${this.files.size} 个文件`);
+    if (this.tooLarge.size > 0) parts.push(`${this.tooLarge.size} 个超过大小限制`);
+    if (this.failed.size > 0) parts.push(`${this.failed.size} 个下载失败`);
+    if (this.retries > 0) parts.push(`${this.retries} 次重试`);
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+}
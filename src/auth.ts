@@ -0,0 +1,205 @@
+// auth.ts - 自定义请求头、认证和 Cookie
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * 认证选项
+ */
+export interface AuthOptions {
+  headers?: Record<string, string>;  // 额外的请求头
+  bearerTokenEnv?: string;           // 保存 Bearer token 的环境变量名
+  basicAuthEnv?: string;             // 保存 Basic 认证信息的环境变量名 (值的格式为 "用户名:密码")
+  basicAuth?: string;                // Basic 认证,格式为 "用户名:密码"
+  cookiesFile?: string;              // Netscape/Mozilla 格式的 cookies.txt 路径
+}
+
+/**
+ * cookies.txt 中的一条 Cookie
+ */
+export interface Cookie {
+  domain: string;              // 不带前导点的域名
+  includeSubdomains: boolean;  // 是否同时发送给子域名
+  path: string;
+  secure: boolean;             // 只通过 HTTPS 发送
+  expires: number;             // 过期时间 (秒级时间戳),0 表示会话 Cookie
+  name: string;
+  value: string;
+}
+
+/**
+ * 解析 Netscape/Mozilla 格式的 cookies.txt
+ * 每行 7 个字段,以 Tab 分隔: 域名、是否包含子域名、路径、是否仅 HTTPS、过期时间、名称、值
+ * @param content 文件内容
+ * @returns Cookie 列表
+ */
+export function parseCookiesTxt(content: string): Cookie[] {
+  const cookies: Cookie[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // curl 会用 #HttpOnly_ 前缀标记 HttpOnly Cookie,其余 # 开头的行是注释
+    const line = rawLine.startsWith('#HttpOnly_') ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+
+    cookies.push({
+      domain: domain!.replace(/^\./, '').toLowerCase(),
+      includeSubdomains: includeSubdomains!.toUpperCase() === 'TRUE' || domain!.startsWith('.'),
+      path: path || '/',
+      secure: secure!.toUpperCase() === 'TRUE',
+      expires: Number(expires) || 0,
+      name: name!,
+      value: value.join('\t')
+    });
+  }
+
+  return cookies;
+}
+
+/**
+ * 判断 Cookie 是否应该随请求发送
+ */
+function cookieMatches(cookie: Cookie, url: URL, now: number): boolean {
+  if (cookie.expires > 0 && cookie.expires * 1000 <= now) {
+    return false;
+  }
+  if (cookie.secure && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const domainMatches = host === cookie.domain ||
+    (cookie.includeSubdomains && host.endsWith(`.${cookie.domain}`));
+  if (!domainMatches) {
+    return false;
+  }
+
+  return url.pathname === cookie.path ||
+    url.pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`);
+}
+
+/**
+ * 生成 Cookie 请求头
+ * @param cookies Cookie 列表
+ * @param url 请求 URL
+ * @returns Cookie 请求头的值,没有匹配的 Cookie 时返回 undefined
+ */
+export function cookieHeader(cookies: Cookie[], url: string): string | undefined {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch (error) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const pairs = cookies
+    .filter(cookie => cookieMatches(cookie, urlObj, now))
+    .map(cookie => `${cookie.name}=${cookie.value}`);
+
+  return pairs.length > 0 ? pairs.join('; ') : undefined;
+}
+
+/**
+ * 请求认证信息
+ * 自定义请求头、Bearer token 和 Basic 认证只发送给入口 URL 所在的主机,
+ * Cookie 按 cookies.txt 中的域名和路径匹配。
+ * 认证信息只保存在内存中,不会写入清单、进度文件或日志。
+ */
+export class RequestAuth {
+  private constructor(
+    private host: string,
+    private headers: Record<string, string>,
+    private cookies: Cookie[],
+    private summary: string[]
+  ) {}
+
+  /**
+   * 根据认证选项创建认证信息
+   * @param baseUrl 入口 URL
+   * @param options 认证选项
+   * @returns 认证信息,没有配置任何认证时返回 undefined
+   */
+  static load(baseUrl: string, options: AuthOptions = {}): RequestAuth | undefined {
+    const headers: Record<string, string> = {};
+    const summary: string[] = [];
+
+    const headerNames = Object.keys(options.headers ?? {});
+    if (headerNames.length > 0) {
+      Object.assign(headers, options.headers);
+      summary.push(`请求头 ${headerNames.join(', ')}`);
+    }
+
+    if (options.bearerTokenEnv) {
+      const token = process.env[options.bearerTokenEnv];
+      if (!token) {
+        throw new Error(`环境变量 ${options.bearerTokenEnv} 未设置 (Bearer token)`);
+      }
+      headers['Authorization'] = `Bearer ${token}`;
+      summary.push(`Bearer token ($${options.bearerTokenEnv})`);
+    }
+
+    let basicAuth = options.basicAuth;
+    if (options.basicAuthEnv) {
+      basicAuth = process.env[options.basicAuthEnv];
+      if (!basicAuth) {
+        throw new Error(`环境变量 ${options.basicAuthEnv} 未设置 (Basic 认证)`);
+      }
+    }
+    if (basicAuth) {
+      const separator = basicAuth.indexOf(':');
+      if (separator === -1) {
+        throw new Error('Basic 认证格式应为 "用户名:密码"');
+      }
+      headers['Authorization'] = `Basic ${Buffer.from(basicAuth).toString('base64')}`;
+      summary.push(`Basic 认证 (${basicAuth.slice(0, separator)})`);
+    }
+
+    let cookies: Cookie[] = [];
+    if (options.cookiesFile) {
+      if (!existsSync(options.cookiesFile)) {
+        throw new Error(`Cookie 文件不存在: ${options.cookiesFile}`);
+      }
+      cookies = parseCookiesTxt(readFileSync(options.cookiesFile, 'utf-8'));
+      summary.push(`cookies.txt (${cookies.length} 个 Cookie)`);
+    }
+
+    if (summary.length === 0) {
+      return undefined;
+    }
+
+    return new RequestAuth(new URL(baseUrl).host, headers, cookies, summary);
+  }
+
+  /**
+   * 生成请求 URL 需要附加的请求头
+   * @param url 请求 URL
+   * @returns 请求头
+   */
+  headersFor(url: string): Record<string, string> {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch (error) {
+      return {};
+    }
+
+    const headers: Record<string, string> = host === this.host ? { ...this.headers } : {};
+
+    const cookie = cookieHeader(this.cookies, url);
+    if (cookie) {
+      headers['Cookie'] = cookie;
+    }
+
+    return headers;
+  }
+
+  /**
+   * 用于日志的描述 (不包含任何密钥)
+   */
+  describe(): string {
+    return this.summary.join(', ');
+  }
+}
@@ -0,0 +1,372 @@
+// bundle.ts - 将抓取的所有页面合并为一个 Markdown 文件 (类似 llms-full.txt)
+import { existsSync, unlinkSync } from 'fs';
+import { basename, join, posix } from 'path';
+import type { PageLink } from './scraper';
+import { LinkIndex, replaceMarkdownTargets } from './links';
+import { splitFrontMatter } from './front-matter';
+import { estimateTokens } from './tokens';
+
+/**
+ * 合并文件选项
+ */
+export interface BundleOptions {
+  title?: string;      // 合并文件的标题 (默认使用输出目录名)
+  maxSize?: number;    // 单个文件的大小上限（字节）,超过时拆分为多个文件
+  maxTokens?: number;  // 单个文件的 token 上限 (估算值),超过时拆分为多个文件
+}
+
+/**
+ * 生成的合并文件
+ */
+export interface BundleFile {
+  path: string;    // 文件路径
+  pages: number;   // 包含的页面数量
+  bytes: number;   // 文件大小（字节）
+  tokens: number;  // 估算的 token 数量
+}
+
+/**
+ * 合并文件名 (保存在输出目录下,拆分时为 _bundle-1.md、_bundle-2.md 等)
+ */
+export const BUNDLE_NAME = '_bundle';
+
+/**
+ * 判断输出目录下的文件路径是否是合并文件使用的保留文件名
+ * @param file 相对于输出目录的文件路径
+ */
+export function isBundleFile(file: string): boolean {
+  return new RegExp(`^${BUNDLE_NAME}(-\\d+)?\\.md$`, 'i').test(file);
+}
+
+/**
+ * 页面标题使用的标题级别 (一级标题是合并文件的标题)
+ */
+const PAGE_HEADING_LEVEL = 2;
+
+/**
+ * 合并文件中的一个页面
+ */
+interface Section {
+  link: PageLink;
+  title: string;        // 页面标题 (页面开头的标题,没有时使用链接标题)
+  headings: string[];   // 正文中所有标题的文字 (按顺序,用于生成锚点)
+  body: string;         // 调整标题级别后的正文
+  bytes: number;
+  tokens: number;
+}
+
+/**
+ * 生成与 GitHub 相同的标题锚点,重复的标题依次添加 -1、-2 后缀
+ */
+class Slugger {
+  private counts = new Map<string, number>();
+
+  slug(heading: string): string {
+    const base = headingText(heading)
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+      .replace(/ /g, '-');
+
+    const count = this.counts.get(base) ?? 0;
+    this.counts.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  }
+}
+
+/**
+ * 移除标题中的 Markdown 标记,得到显示的文字
+ */
+function headingText(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[`*_~]/g, '')
+    .trim();
+}
+
+/**
+ * ATX 标题: # Title
+ */
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Setext 标题的下划线: === (一级) 或 --- (二级)
+ */
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * 不能作为 Setext 标题内容的行 (列表、引用、表格、HTML 等)
+ */
+const NOT_PARAGRAPH = /^\s*([-*+>|<#]|\d+[.)]\s|`{3,}|~{3,})/;
+
+/**
+ * 调整页面中的标题级别,使页面内容位于页面标题之下
+ * 页面开头的最高级标题作为页面标题移除,其余标题整体下移,最高级变为三级标题 (最多六级)。
+ * Setext 标题转换为 ATX 标题,代码块中的内容保持不变。
+ * @param markdown 页面内容 (不含 front matter)
+ * @returns 页面标题 (页面开头没有标题时为 undefined)、正文中的标题文字和调整后的正文
+ */
+function nestHeadings(markdown: string): { title?: string; headings: string[]; body: string } {
+  const lines = markdown.split('\n');
+  const headings: Array<{ index: number; level: number; text: string }> = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence) {
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      headings.push({ index: i, level: atx[1]!.length, text: atx[2] ?? '' });
+      continue;
+    }
+
+    // 单行段落下的 === 或 --- 是 Setext 标题,合并为一行
+    const setext = line.match(SETEXT_UNDERLINE);
+    const previous = lines[i - 1];
+    if (setext && previous?.trim() && !NOT_PARAGRAPH.test(previous) && !lines[i - 2]?.trim()
+      && headings.at(-1)?.index !== i - 1) {
+      headings.push({ index: i - 1, level: setext[1]!.startsWith('=') ? 1 : 2, text: previous.trim() });
+      lines[i] = '';
+    }
+  }
+
+  // 第一行内容是最高级标题时作为页面标题
+  let title: string | undefined;
+  const first = headings[0];
+  const minLevel = Math.min(...headings.map(heading => heading.level));
+  if (first && first.level === minLevel && lines.slice(0, first.index).every(line => !line.trim())) {
+    title = headingText(first.text) || undefined;
+    lines[first.index] = '';
+    headings.shift();
+  }
+
+  const shift = PAGE_HEADING_LEVEL + 1 - Math.min(...headings.map(heading => heading.level));
+  for (const heading of headings) {
+    const level = Math.min(Math.max(heading.level + shift, PAGE_HEADING_LEVEL + 1), 6);
+    lines[heading.index] = `${'#'.repeat(level)} ${heading.text}`.trimEnd();
+  }
+
+  return {
+    title,
+    headings: headings.map(heading => heading.text),
+    body: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+  };
+}
+
+/**
+ * 每个合并文件开头 (标题、拆分信息和目录标题) 预留的大小
+ */
+const HEADER_ALLOWANCE = 400;
+
+/**
+ * 按大小和 token 上限将页面分组,每组写入一个文件
+ * 单个页面超过上限时单独成为一组
+ */
+function splitSections(sections: Section[], options: BundleOptions): Section[][] {
+  const maxSize = options.maxSize ?? Infinity;
+  const maxTokens = options.maxTokens ?? Infinity;
+  const headerTokens = estimateTokens(' '.repeat(HEADER_ALLOWANCE));
+  const parts: Section[][] = [];
+  let current: Section[] = [];
+  let bytes = HEADER_ALLOWANCE;
+  let tokens = headerTokens;
+
+  for (const section of sections) {
+    if (current.length > 0 && (bytes + section.bytes > maxSize || tokens + section.tokens > maxTokens)) {
+      parts.push(current);
+      current = [];
+      bytes = HEADER_ALLOWANCE;
+      tokens = headerTokens;
+    }
+    current.push(section);
+    bytes += section.bytes;
+    tokens += section.tokens;
+  }
+  if (current.length > 0) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * 删除上次生成的合并文件 (拆分数量可能变化)
+ * 只删除上次记录的合并文件,不会删除输出目录中的其他文件
+ */
+function removeOldBundles(outputDir: string, previous: string[]): void {
+  for (const file of previous) {
+    if (isBundleFile(file) && existsSync(join(outputDir, file))) {
+      unlinkSync(join(outputDir, file));
+    }
+  }
+}
+
+/**
+ * 将已保存的页面合并为一个 Markdown 文件
+ * 按页面列表的顺序 (llms.txt 或导航顺序) 拼接页面,生成带链接的目录,
+ * 调整标题级别使每个页面位于自己的标题之下,并在每个页面前注明来源 URL。
+ * 页面之间的本地链接改写为合并文件中的锚点,其他本地文件的相对路径改写为相对于合并文件的路径。
+ * 合并文件保存在输出目录下 (<output>/<域名>/_bundle.md),设置了大小或 token 上限时拆分为 _bundle-1.md、_bundle-2.md 等。
+ * @param links 页面列表 (按合并顺序,未保存的页面会被跳过)
+ * @param outputDir 输出目录 (<output>/<域名>)
+ * @param options 合并选项
+ * @param previous 上次生成的合并文件 (相对于输出目录),写入前删除
+ * @returns 生成的合并文件,没有可合并的页面时返回空数组
+ */
+export async function writeBundle(
+  links: PageLink[],
+  outputDir: string,
+  options: BundleOptions = {},
+  previous: string[] = []
+): Promise<BundleFile[]> {
+  const title = options.title ?? basename(outputDir);
+
+  // 1. 读取页面并调整标题级别
+  const sections: Section[] = [];
+  const seen = new Set<string>();
+  for (const link of links) {
+    if (!link.file || seen.has(link.file) || !existsSync(join(outputDir, link.file))) {
+      continue;
+    }
+    seen.add(link.file);
+
+    const { body: markdown } = splitFrontMatter(await Bun.file(join(outputDir, link.file)).text());
+    const nested = nestHeadings(markdown);
+    const title = nested.title ?? link.title;
+    // 页面在文件中占用的大小 (包括目录中的一行)
+    const size = `- [${title}](#)\n---\n\n## ${title}\n\n> Source: ${link.url}\n\n${nested.body}\n\n`;
+    sections.push({
+      link,
+      title,
+      headings: nested.headings,
+      body: nested.body,
+      bytes: Buffer.byteLength(size),
+      tokens: estimateTokens(size)
+    });
+  }
+
+  removeOldBundles(outputDir, previous);
+  if (sections.length === 0) {
+    return [];
+  }
+
+  // 2. 拆分并分配文件名和页面锚点
+  const parts = splitSections(sections, options);
+  const partFile = (index: number) => parts.length === 1 ? `${BUNDLE_NAME}.md` : `${BUNDLE_NAME}-${index + 1}.md`;
+
+  const anchors = new Map<string, { part: number; anchor: string }>();
+  parts.forEach((part, partIndex) => {
+    // 锚点按标题在文件中出现的顺序生成: 文件标题、目录、每个页面的标题和正文中的标题
+    const slugger = new Slugger();
+    slugger.slug(title);
+    slugger.slug('Contents');
+    for (const section of part) {
+      anchors.set(section.link.file!, { part: partIndex, anchor: slugger.slug(section.title) });
+      section.headings.forEach(heading => slugger.slug(heading));
+    }
+  });
+
+  // 3. 改写链接并写入文件
+  const index = new LinkIndex(sections.map(section => ({ url: section.link.url, file: section.link.file! })));
+  const files: BundleFile[] = [];
+
+  for (const [partIndex, part] of parts.entries()) {
+    // 页面在合并文件中的锚点 (页面内的 #fragment 在合并后可能变化,统一指向页面标题)
+    const pageAnchor = (file: string): string => {
+      const page = anchors.get(file)!;
+      return page.part === partIndex ? `#${page.anchor}` : `${partFile(page.part)}#${page.anchor}`;
+    };
+
+    const body = part.map(section => {
+      const fromDir = posix.dirname(section.link.file!);
+      const markdown = replaceMarkdownTargets(section.body, link => {
+        if (!link || link.startsWith('#') || /^(?!https?:)[a-z][a-z0-9+.-]*:/i.test(link)) {
+          return undefined;
+        }
+
+        // 本地文件的相对路径: 合并的页面改写为锚点,其他文件改写为相对于输出目录的路径
+        if (!/^(https?:)?\/\//i.test(link) && !link.startsWith('/')) {
+          const [path = '', hash = ''] = link.split(/(?=#)/);
+          let localPath = path;
+          try {
+            localPath = decodeURI(path);
+          } catch (error) {
+            // 保持原样
+          }
+          const file = posix.normalize(posix.join(fromDir, localPath));
+          if (anchors.has(file)) {
+            return pageAnchor(file);
+          }
+          if (existsSync(join(outputDir, file))) {
+            return `${posix.normalize(posix.join(fromDir, path))}${hash}`;
+          }
+        }
+
+        // 网址: 指向合并的页面时改写为锚点,其他相对地址转换为绝对地址
+        try {
+          const url = new URL(link, section.link.url);
+          const file = index.resolve(url.href);
+          if (file) {
+            return pageAnchor(file);
+          }
+          return url.href === link ? undefined : url.href;
+        } catch (error) {
+          return undefined;
+        }
+      });
+      return `---\n\n## ${section.title}\n\n> Source: ${section.link.url}\n\n${markdown}`;
+    }).join('\n\n');
+
+    const toc = tableOfContents(part, anchors);
+    const header = parts.length === 1
+      ? `# ${title}\n\n${pageCount(part.length)}`
+      : `# ${title}\n\nPart ${partIndex + 1} of ${parts.length}, ${pageCount(part.length)}. Parts: ${parts.map((_, i) => `[${partFile(i)}](${partFile(i)})`).join(', ')}`;
+    const content = `${header}\n\n## Contents\n\n${toc}\n\n${body}\n`;
+
+    const path = join(outputDir, partFile(partIndex));
+    await Bun.write(path, content);
+    files.push({ path, pages: part.length, bytes: Buffer.byteLength(content), tokens: estimateTokens(content) });
+  }
+
+  return files;
+}
+
+/**
+ * 页面数量的英文描述
+ */
+function pageCount(count: number): string {
+  return count === 1 ? '1 page' : `${count} pages`;
+}
+
+/**
+ * 生成目录,页面有 llms.txt 部分信息时按部分分组
+ */
+function tableOfContents(part: Section[], anchors: Map<string, { part: number; anchor: string }>): string {
+  const lines: string[] = [];
+  let section: string | undefined;
+
+  for (const page of part) {
+    const grouped = page.link.section !== undefined;
+    if (grouped && page.link.section !== section) {
+      section = page.link.section;
+      lines.push(`- ${section}`);
+    }
+    lines.push(`${grouped ? '  ' : ''}- [${page.title}](#${anchors.get(page.link.file!)!.anchor})`);
+  }
+
+  return lines.join('\n');
+}
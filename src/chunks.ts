@@ -0,0 +1,243 @@
+// chunks.ts - 按标题将页面切分为分块,导出 JSONL (用于 RAG 检索索引)
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { PageLink } from './scraper';
+import type { ManifestEntry } from './manifest';
+import { splitFrontMatter } from './front-matter';
+import { estimateTokens } from './tokens';
+
+/**
+ * 分块文件名,保存在 <output>/<域名>/ 目录下
+ */
+export const CHUNKS_FILENAME = 'chunks.jsonl';
+
+/**
+ * 默认的目标分块大小 (token)
+ */
+export const DEFAULT_CHUNK_TOKENS = 512;
+
+/**
+ * 页面中的一个分块
+ */
+export interface Chunk {
+  breadcrumb: string[];  // 分块所在的标题路径 (从最高级标题开始)
+  content: string;       // 分块的 Markdown 内容
+  tokens: number;        // 估算的 token 数量
+}
+
+/**
+ * JSONL 中的一条记录
+ */
+export interface ChunkRecord extends Chunk {
+  id: string;            // 分块 ID (<文件>#<序号>)
+  url: string;           // 页面 URL
+  file: string;          // 页面文件 (相对于输出目录)
+  title: string;         // 页面标题
+  chunkIndex: number;    // 分块在页面中的序号 (从 0 开始)
+}
+
+/**
+ * Markdown 块 (段落、列表、表格、代码块或标题)
+ */
+interface Block {
+  text: string;
+  heading?: { level: number; text: string };
+}
+
+/**
+ * 以标题开始的一节内容
+ */
+interface Section {
+  breadcrumb: string[];
+  blocks: string[];
+}
+
+/**
+ * ATX 标题: # Title
+ */
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * 将 Markdown 拆分为块: 空行分隔段落,标题单独成块,围栏代码块 (包括其中的空行) 作为一个整体
+ */
+function splitBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.length > 0) {
+      blocks.push({ text: current.join('\n') });
+      current = [];
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      current.push(line);
+      continue;
+    }
+    if (fence) {
+      current.push(line);
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ text: line, heading: { level: heading[1]!.length, text: (heading[2] ?? '').trim() } });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * 按标题将块分组,记录每节的标题路径
+ */
+function splitSections(blocks: Block[]): Section[] {
+  const sections: Section[] = [{ breadcrumb: [], blocks: [] }];
+  const stack: Array<{ level: number; text: string }> = [];
+
+  for (const block of blocks) {
+    if (block.heading) {
+      while (stack.length > 0 && stack.at(-1)!.level >= block.heading.level) {
+        stack.pop();
+      }
+      stack.push(block.heading);
+      sections.push({ breadcrumb: stack.map(heading => heading.text), blocks: [] });
+    }
+    sections.at(-1)!.blocks.push(block.text);
+  }
+
+  return sections.filter(section => section.blocks.length > 0);
+}
+
+/**
+ * 判断标题路径是否位于另一个路径之下 (或相同)
+ */
+function isWithin(breadcrumb: string[], parent: string[]): boolean {
+  return parent.every((text, index) => breadcrumb[index] === text);
+}
+
+/**
+ * 按标题将 Markdown 切分为分块
+ * 每个标题开始新的一节,同一标题下的子节在不超过目标大小时合并到一个分块中;
+ * 超过目标大小的节按段落拆分,围栏代码块不会被拆开 (单个代码块超过目标大小时单独成为一个分块)
+ * @param markdown Markdown 内容 (front matter 会被忽略)
+ * @param maxTokens 目标分块大小 (token)
+ * @returns 分块列表
+ */
+export function chunkMarkdown(markdown: string, maxTokens: number = DEFAULT_CHUNK_TOKENS): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: { breadcrumb: string[]; blocks: string[]; tokens: number } | null = null;
+
+  const flush = () => {
+    if (current) {
+      const content = current.blocks.join('\n\n');
+      chunks.push({ breadcrumb: current.breadcrumb, content, tokens: estimateTokens(content) });
+      current = null;
+    }
+  };
+
+  for (const section of splitSections(splitBlocks(splitFrontMatter(markdown).body))) {
+    const text = section.blocks.join('\n\n');
+    const tokens = estimateTokens(text);
+
+    // 子节合并到所在标题的分块中 (第一个标题之前的内容单独成为分块)
+    if (current && current.breadcrumb.length > 0 && isWithin(section.breadcrumb, current.breadcrumb)
+      && current.tokens + tokens <= maxTokens) {
+      current.blocks.push(text);
+      current.tokens += tokens;
+      continue;
+    }
+
+    flush();
+    if (tokens <= maxTokens) {
+      current = { breadcrumb: section.breadcrumb, blocks: [text], tokens };
+      continue;
+    }
+
+    // 过长的节按段落拆分,标题与第一段放在同一个分块中
+    const [first, second, ...rest] = section.blocks;
+    const blocks = section.breadcrumb.length > 0 && second !== undefined
+      ? [`${first}\n\n${second}`, ...rest]
+      : section.blocks;
+    for (const block of blocks) {
+      const blockTokens = estimateTokens(block);
+      if (current && current.tokens + blockTokens > maxTokens) {
+        flush();
+      }
+      current ??= { breadcrumb: section.breadcrumb, blocks: [], tokens: 0 };
+      current.blocks.push(block);
+      current.tokens += blockTokens;
+    }
+    flush();
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * 将所有已保存的页面切分为分块并写入 chunks.jsonl
+ * 本次抓取的页面按页面列表的顺序,之前保存的其他文件按路径排序放在最后
+ * @param links 本次抓取的全部页面
+ * @param entries 清单中的所有记录
+ * @param outputDir 输出目录 (<output>/<域名>)
+ * @param maxTokens 目标分块大小 (token)
+ * @returns 分块文件路径和统计,没有已保存的文件时返回 null
+ */
+export async function writeChunks(
+  links: PageLink[],
+  entries: ManifestEntry[],
+  outputDir: string,
+  maxTokens: number = DEFAULT_CHUNK_TOKENS
+): Promise<{ path: string; pages: number; chunks: number } | null> {
+  const order = new Map(links.map((link, index) => [link.url, index]));
+  const sorted = entries
+    .filter(entry => existsSync(join(outputDir, entry.file)))
+    .sort((a, b) => (order.get(a.url) ?? Infinity) - (order.get(b.url) ?? Infinity) || a.file.localeCompare(b.file));
+
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const titles = new Map(links.map(link => [link.url, link.title]));
+  const lines: string[] = [];
+  for (const entry of sorted) {
+    const markdown = await Bun.file(join(outputDir, entry.file)).text();
+    chunkMarkdown(markdown, maxTokens).forEach((chunk, chunkIndex) => {
+      const record: ChunkRecord = {
+        id: `${entry.file}#${chunkIndex}`,
+        url: entry.url,
+        file: entry.file,
+        title: titles.get(entry.url) ?? entry.title ?? entry.file.replace(/\.md$/, ''),
+        breadcrumb: chunk.breadcrumb,
+        chunkIndex,
+        tokens: chunk.tokens,
+        content: chunk.content
+      };
+      lines.push(JSON.stringify(record));
+    });
+  }
+
+  const path = join(outputDir, CHUNKS_FILENAME);
+  await Bun.write(path, lines.length > 0 ? lines.join('\n') + '\n' : '');
+  return { path, pages: sorted.length, chunks: lines.length };
+}
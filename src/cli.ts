@@ -1,7 +1,11 @@
 // cli.ts - 命令行接口
 import { parseArgs as utilParseArgs } from 'node:util';
+import { existsSync } from 'fs';
 import type { ScraperOptions } from './scraper';
 import { loadConfig, getDomainConfig, type DomainConfig } from './config';
+import type { AuthOptions } from './auth';
+import { OUTPUT_LAYOUTS, type OutputLayout } from './layout';
+import { PRESET_NAMES } from './presets';
 
 /**
  * CLI 参数接口
@@ -9,7 +13,9 @@ import { loadConfig, getDomainConfig, type DomainConfig } from './config';
 export interface CliArgs {
   url: string;
   followLinksSelector?: string;
-  contentAreaSelector: string;
+  contentAreaSelector?: string;
+  excludeSelectors?: string[];
+  cleanBoilerplate: boolean;
   outputDir: string;
   useNativeMd: boolean;
   showHelp: boolean;
@@ -17,6 +23,39 @@ export interface CliArgs {
   useLlmsTxt: boolean;
   includeOptional: boolean;
   dryRun: boolean;
+  maxDepth?: number;
+  scope?: string;
+  maxPages?: number;
+  useSitemap: boolean;
+  resume: boolean;
+  ignoreRobotsTxt: boolean;
+  rateLimit?: number;
+  timeout?: number;   // 毫秒
+  deadline?: number;  // 毫秒
+  auth?: AuthOptions;
+  proxy?: string;
+  caFile?: string;
+  userAgent?: string;
+  layout?: OutputLayout;
+  preset?: string;
+  rewriteLinks: boolean;
+  generateIndex: boolean;
+  downloadAssets: boolean;
+  assetExtensions?: string[];
+  maxAssetSize?: number;   // 字节
+  frontMatter: boolean;
+  compact: boolean;
+  stripImages: boolean;
+  bundle: boolean;
+  bundleMaxSize?: number;  // 字节
+  bundleMaxTokens?: number;
+  chunks: boolean;
+  chunkSize?: number;      // token
+  maxTokens?: number;
+  stripParams?: string[];
+  dedupe: boolean;
+  dedupeThreshold?: number;
+  docVersion?: string;
 }
 
 /**
@@ -33,19 +72,61 @@ markgrab - 网页文档抓取工具
 
 选项:
   --follow=<selector>            跟随链接的 CSS 选择器 (抓取匹配的所有链接)
-  --content=<selector>           内容区域的 CSS 选择器 (默认: 'body')
+  --depth=<n>                    跟随链接的最大深度 (默认: 1,只跟随入口页面上的链接)
+  --scope=<prefix>               只跟随以此 URL 前缀开头的链接 (默认: --depth 大于 1 时与入口页面同源)
+  --max-pages=<n>                跟随链接时最多抓取的页面数量 (默认: 500)
+  --doc-version=<name>           多版本文档只抓取一个版本 (例如 v3、5.0,latest 表示最新版本),
+                                 根据 URL 中的版本号和版本切换菜单识别,输出到 <output>/<域名>/<版本>/
+  --content=<selector>           内容区域的 CSS 选择器 (默认: 'body'),auto 表示自动识别主要内容
+  --preset=<name>                文档框架预设,提供默认的内容、跟随链接和排除选择器
+                                 (auto 表示自动识别,可选: ${PRESET_NAMES.join(', ')})
+  --exclude=<selector>           转换前移除的元素 (可以重复使用,例如 --exclude=".ads" --exclude="footer")
+  --no-clean                     保留面包屑、上一页/下一页、反馈组件和标题锚点等页面框架
   --output=<dir>                 输出目录 (默认: 当前目录 './')
+  --layout=<flat|path>           输出布局: flat 按标题平铺 (默认),path 按 URL 路径建立目录
   --config=<path>                配置文件路径 (TOML 格式)
   --no-native-md                 禁用原生 Markdown,强制 HTML 转换
   --no-llms-txt                  禁用 llms.txt 自动检测
   --include-optional             包含 llms.txt 中的 Optional 部分
+  --no-sitemap                   禁用 sitemap.xml 自动检测
+  --no-rewrite-links             不将内部链接改写为本地 .md 文件的相对路径
+  --no-index                     不在输出目录生成 llms.txt 和 index.md 索引
+  --assets                       下载引用的图片到 assets/ 目录并改写为本地路径
+  --asset-ext=<ext,...>          同时下载链接到的文件 (例如 pdf,zip),需要 --assets
+  --max-asset-size=<MB>          单个资源的大小上限 (默认: 10)
+  --front-matter                 在每个文件开头写入 YAML front matter (来源 URL、标题、抓取时间等)
+  --compact                      压缩输出以节省 token: 合并空白、移除 data URI 图片和空链接、缩短同站点链接,代码块保持不变
+  --strip-images                 压缩输出时同时移除所有图片 (隐含 --compact)
+  --bundle                       抓取完成后将所有页面合并为一个文件 (<output>/<域名>/_bundle.md),带目录和来源 URL
+  --bundle-max-size=<KB>         单个合并文件的大小上限,超过时拆分为 _bundle-1.md、_bundle-2.md 等
+  --bundle-max-tokens=<n>        单个合并文件的 token 上限 (估算值),超过时拆分
+  --chunks                       按标题切分页面,导出 chunks.jsonl (来源 URL、标题路径、分块序号、token 估算)
+  --chunk-size=<n>               目标分块大小 (token,默认: 512),代码块不会被拆开
+  --strip-params=<p,...>         加入队列前从 URL 中移除的查询参数 (例如 tab,lang,支持 * 通配符),跟踪参数 (utm_* 等) 总是移除
+  --dedupe                       抓取完成后移除内容相同、高度相似或 rel=canonical 指向其他页面的重复页面
+                                 (清单中保留记录,重新抓取时跳过)
+  --dedupe-threshold=<0-1>       判断为重复页面的相似度阈值,大于 0 且不超过 1 (默认: 0.9)
+  --max-tokens=<n>               token 预算,已保存的文件达到预算后停止抓取 (使用 llms.txt 时优先抓取靠前的部分,Optional 最后)
+  --ignore-robots                忽略 robots.txt (仅用于自己的网站)
+  --rate-limit=<n>               每个主机每秒最多请求数 (可以是小数,例如 0.5)
+  --timeout=<秒>                 单个请求的超时时间 (默认: 30),超时的请求会重试
+  --deadline=<秒>                整个抓取任务的总时限,超时后保存进度并退出
+  --header="<名称>: <值>"         额外的请求头 (可以重复使用)
+  --bearer-token-env=<变量名>    从环境变量读取 Bearer token
+  --basic-auth-env=<变量名>      从环境变量读取 Basic 认证信息 (格式为 "用户名:密码")
+  --cookies=<path>               加载 Netscape/Mozilla 格式的 cookies.txt
+  --proxy=<url>                  使用代理 (默认读取 HTTPS_PROXY / HTTP_PROXY,遵守 NO_PROXY)
+  --ca-cert=<path>               额外信任的 CA 证书文件 (PEM 格式,用于企业代理)
+  --user-agent=<ua>              User-Agent 请求头 (默认 markgrab/<版本>)
   --dry-run                      预览模式,只显示将要抓取的内容,不实际抓取
+  --resume                       从上次中断的位置继续抓取 (包括重试失败的页面)
   --help, -h                     显示此帮助信息
 
 抓取规则 (按优先级):
   1. 如果有 llms.txt → 按 llms.txt 规则抓取
   2. 如果设置 --follow → 抓取本页面 + 所有匹配链接
-  3. 否则 → 只抓取当前页面
+  3. 如果有 sitemap.xml → 抓取 sitemap 中位于 URL 路径下的页面
+  4. 否则 → 只抓取当前页面
 
 示例:
   # 只抓取单个页面
@@ -57,6 +138,10 @@ markgrab - 网页文档抓取工具
   # 跟随链接抓取整个站点
   bun src/index.ts --url=https://bun.com/docs --follow='a[href^="/docs/"]'
 
+  # 递归跟随侧边栏链接,最多 3 层,限制在 /docs/ 下
+  bun src/index.ts --url=https://bun.com/docs --follow='nav a' --depth=3 \\
+    --scope=https://bun.com/docs/
+
   # 自定义所有参数
   bun src/index.ts \\
     --url=https://bun.com/docs \\
@@ -77,13 +162,27 @@ markgrab - 网页文档抓取工具
     ["bun.com"]
     followLinksSelector = "a[href^='/docs/']"
     contentAreaSelector = "main"
+    preset = "auto"
+    excludeSelectors = [".banner", "footer"]
     outputDir = "./docs"
     useNativeMd = true
+    maxDepth = 2
+    rateLimit = 2
+    bearerTokenEnv = "BUN_DOCS_TOKEN"
+    headers = { "Accept-Language" = "en" }
 
 提示:
-  • 文件会自动保存到 <output>/<域名>/ 目录下
+  • 文件会自动保存到 <output>/<域名>/ 目录下 (使用 --doc-version 时为 <output>/<域名>/<版本>/)
+  • 抓取完成后,指向已抓取页面的链接会改写为本地 .md 文件的相对路径
+  • 使用 --layout=path 按 URL 路径保存 (例如 docs/guides/routing/index.md),文件名冲突时自动添加序号
   • 默认会先尝试获取原生 Markdown (.md URL)
   • 使用 --no-native-md 可跳过原生 Markdown 尝试
+  • 重复抓取时会根据输出目录中的 .markgrab-manifest.json 跳过未变化的页面
+  • 抓取进度保存在 .markgrab-state.json,按 Ctrl+C 中断后可使用 --resume 继续
+  • 默认遵守 robots.txt 的 Disallow 和 Crawl-delay 规则
+  • 达到 --deadline 时间限制后会保存进度,可使用 --resume 继续
+  • 请求头、token 和 Cookie 只发送给对应的网站,不会写入清单或日志
+  • 内容区域选择器没有匹配任何元素时,会自动识别主要内容并给出警告
   `);
 }
 
@@ -103,12 +202,69 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
       follow: {
         type: 'string',
       },
+      depth: {
+        type: 'string',
+      },
+      scope: {
+        type: 'string',
+      },
+      'max-pages': {
+        type: 'string',
+      },
+      'rate-limit': {
+        type: 'string',
+      },
+      timeout: {
+        type: 'string',
+      },
+      deadline: {
+        type: 'string',
+      },
+      header: {
+        type: 'string',
+        multiple: true,
+      },
+      'bearer-token-env': {
+        type: 'string',
+      },
+      'basic-auth-env': {
+        type: 'string',
+      },
+      cookies: {
+        type: 'string',
+      },
+      proxy: {
+        type: 'string',
+      },
+      'ca-cert': {
+        type: 'string',
+      },
+      'user-agent': {
+        type: 'string',
+      },
       content: {
         type: 'string',
       },
+      exclude: {
+        type: 'string',
+        multiple: true,
+      },
+      'no-clean': {
+        type: 'boolean',
+        default: false,
+      },
       output: {
         type: 'string',
       },
+      preset: {
+        type: 'string',
+      },
+      'doc-version': {
+        type: 'string',
+      },
+      layout: {
+        type: 'string',
+      },
       config: {
         type: 'string',
       },
@@ -124,10 +280,82 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
         type: 'boolean',
         default: false,
       },
+      'no-sitemap': {
+        type: 'boolean',
+        default: false,
+      },
+      'no-rewrite-links': {
+        type: 'boolean',
+        default: false,
+      },
+      'no-index': {
+        type: 'boolean',
+        default: false,
+      },
+      'strip-params': {
+        type: 'string',
+      },
+      dedupe: {
+        type: 'boolean',
+        default: false,
+      },
+      'dedupe-threshold': {
+        type: 'string',
+      },
+      assets: {
+        type: 'boolean',
+        default: false,
+      },
+      'asset-ext': {
+        type: 'string',
+      },
+      'max-asset-size': {
+        type: 'string',
+      },
+      'front-matter': {
+        type: 'boolean',
+        default: false,
+      },
+      compact: {
+        type: 'boolean',
+        default: false,
+      },
+      'strip-images': {
+        type: 'boolean',
+        default: false,
+      },
+      bundle: {
+        type: 'boolean',
+        default: false,
+      },
+      'bundle-max-size': {
+        type: 'string',
+      },
+      'bundle-max-tokens': {
+        type: 'string',
+      },
+      chunks: {
+        type: 'boolean',
+        default: false,
+      },
+      'chunk-size': {
+        type: 'string',
+      },
+      'max-tokens': {
+        type: 'string',
+      },
+      'ignore-robots': {
+        type: 'boolean',
+        default: false,
+      },
       'dry-run': {
         type: 'boolean',
         default: false,
       },
+      resume: {
+        type: 'boolean',
+        default: false,
+      },
       help: {
         type: 'boolean',
         short: 'h',
@@ -142,13 +370,25 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
     return {
       url: '',
       followLinksSelector: undefined,
-      contentAreaSelector: 'body',
+      cleanBoilerplate: true,
       outputDir: './',
       useNativeMd: true,
       showHelp: true,
       useLlmsTxt: true,
       includeOptional: false,
-      dryRun: false
+      dryRun: false,
+      useSitemap: true,
+      resume: false,
+      ignoreRobotsTxt: false,
+      rewriteLinks: true,
+      generateIndex: true,
+      dedupe: false,
+      downloadAssets: false,
+      frontMatter: false,
+      compact: false,
+      stripImages: false,
+      bundle: false,
+      chunks: false
     };
   }
 
@@ -193,10 +433,21 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
     (values.follow as string | undefined) ??
     domainConfig?.followLinksSelector;
 
+  // 未设置时使用预设的选择器 (没有预设时为 body)
   const contentAreaSelector =
     (values.content as string | undefined) ??
-    domainConfig?.contentAreaSelector ??
-    'body';
+    domainConfig?.contentAreaSelector;
+
+  const preset = (values.preset as string | undefined) ?? domainConfig?.preset;
+  if (preset !== undefined && !PRESET_NAMES.includes(preset.toLowerCase())) {
+    throw new Error(`--preset 必须是 ${PRESET_NAMES.join(', ')} 之一: ${preset}`);
+  }
+
+  const cliExclude = values.exclude as string[] | undefined;
+  const excludeSelectors = cliExclude ?? domainConfig?.excludeSelectors;
+
+  const cliNoClean = values['no-clean'] as boolean;
+  const cleanBoilerplate = cliNoClean ? false : (domainConfig?.cleanBoilerplate ?? true);
 
   const outputDir =
     (values.output as string | undefined) ??
@@ -216,22 +467,238 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
   const cliIncludeOptional = values['include-optional'] as boolean;
   const includeOptional = cliIncludeOptional ? true : (domainConfig?.includeOptional ?? false);
 
+  const cliNoSitemap = values['no-sitemap'] as boolean;
+  const useSitemap = cliNoSitemap ? false : (domainConfig?.useSitemap ?? true);
+
+  const cliNoRewriteLinks = values['no-rewrite-links'] as boolean;
+  const rewriteLinks = cliNoRewriteLinks ? false : (domainConfig?.rewriteLinks ?? true);
+
+  const cliNoIndex = values['no-index'] as boolean;
+  const generateIndex = cliNoIndex ? false : (domainConfig?.generateIndex ?? true);
+
+  // URL 规范化和重复页面
+  const cliStripParams = values['strip-params'] as string | undefined;
+  const stripParams = cliStripParams !== undefined
+    ? cliStripParams.split(',').map(param => param.trim()).filter(Boolean)
+    : domainConfig?.stripParams;
+
+  const cliDedupe = values.dedupe as boolean;
+  const dedupe = cliDedupe ? true : (domainConfig?.dedupe ?? false);
+
+  // 命令行和配置文件中的阈值统一检查范围 (0, 1]
+  const cliDedupeThreshold = values['dedupe-threshold'] as string | undefined;
+  const dedupeThreshold = cliDedupeThreshold !== undefined ? Number(cliDedupeThreshold) : domainConfig?.dedupeThreshold;
+  if (dedupeThreshold !== undefined && !(dedupeThreshold > 0 && dedupeThreshold <= 1)) {
+    throw new Error(`--dedupe-threshold 必须大于 0 且不超过 1: ${cliDedupeThreshold ?? dedupeThreshold}`);
+  }
+
+  // 文档版本
+  const docVersion = (values['doc-version'] as string | undefined) ?? domainConfig?.docVersion;
+  if (docVersion !== undefined && docVersion.trim() === '') {
+    throw new Error('--doc-version 不能为空');
+  }
+
+  // 资源下载
+  const cliAssets = values.assets as boolean;
+  const downloadAssets = cliAssets ? true : (domainConfig?.downloadAssets ?? false);
+
+  const cliAssetExt = values['asset-ext'] as string | undefined;
+  const assetExtensions = cliAssetExt !== undefined
+    ? cliAssetExt.split(',').map(ext => ext.trim()).filter(Boolean)
+    : domainConfig?.assetExtensions;
+
+  const maxAssetSizeMb =
+    parsePositiveNumber(values['max-asset-size'] as string | undefined, '--max-asset-size') ??
+    domainConfig?.maxAssetSize;
+  const maxAssetSize = maxAssetSizeMb !== undefined ? Math.round(maxAssetSizeMb * 1024 * 1024) : undefined;
+
+  const cliFrontMatter = values['front-matter'] as boolean;
+  const frontMatter = cliFrontMatter ? true : (domainConfig?.frontMatter ?? false);
+
+  const cliCompact = values.compact as boolean;
+  const compact = cliCompact ? true : (domainConfig?.compact ?? false);
+
+  const cliStripImages = values['strip-images'] as boolean;
+  const stripImages = cliStripImages ? true : (domainConfig?.stripImages ?? false);
+
+  const cliBundle = values.bundle as boolean;
+  const bundle = cliBundle ? true : (domainConfig?.bundle ?? false);
+
+  const bundleMaxSizeKb =
+    parsePositiveNumber(values['bundle-max-size'] as string | undefined, '--bundle-max-size') ??
+    domainConfig?.bundleMaxSize;
+  const bundleMaxSize = bundleMaxSizeKb !== undefined ? Math.round(bundleMaxSizeKb * 1024) : undefined;
+
+  const bundleMaxTokens =
+    parsePositiveInt(values['bundle-max-tokens'] as string | undefined, '--bundle-max-tokens') ??
+    domainConfig?.bundleMaxTokens;
+
+  const cliChunks = values.chunks as boolean;
+  const chunks = cliChunks ? true : (domainConfig?.chunks ?? false);
+
+  const chunkSize =
+    parsePositiveInt(values['chunk-size'] as string | undefined, '--chunk-size') ??
+    domainConfig?.chunkSize;
+
+  const maxTokens =
+    parsePositiveInt(values['max-tokens'] as string | undefined, '--max-tokens') ??
+    domainConfig?.maxTokens;
+
+  const cliIgnoreRobots = values['ignore-robots'] as boolean;
+  const ignoreRobotsTxt = cliIgnoreRobots ? true : (domainConfig?.ignoreRobotsTxt ?? false);
+
+  // 配置文件中的值同样需要是正数 (例如 rateLimit = 0 会导致限速器无法工作)
+  const rateLimit = parsePositiveNumber(
+    (values['rate-limit'] as string | undefined) ?? domainConfig?.rateLimit,
+    '--rate-limit'
+  );
+
+  // 超时参数 (秒 → 毫秒)
+  const timeoutSeconds = parsePositiveNumber(
+    (values.timeout as string | undefined) ?? domainConfig?.timeout,
+    '--timeout'
+  );
+  const timeout = timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined;
+
+  const deadlineSeconds = parsePositiveNumber(
+    (values.deadline as string | undefined) ?? domainConfig?.deadline,
+    '--deadline'
+  );
+  const deadline = deadlineSeconds !== undefined ? deadlineSeconds * 1000 : undefined;
+
+  // 认证参数: CLI 中的请求头会覆盖配置文件中的同名请求头
+  const headers = {
+    ...domainConfig?.headers,
+    ...parseHeaders((values.header as string[] | undefined) ?? [])
+  };
+
+  const auth: AuthOptions = {
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    bearerTokenEnv: (values['bearer-token-env'] as string | undefined) ?? domainConfig?.bearerTokenEnv,
+    basicAuthEnv: (values['basic-auth-env'] as string | undefined) ?? domainConfig?.basicAuthEnv,
+    basicAuth: domainConfig?.basicAuth,
+    cookiesFile: (values.cookies as string | undefined) ?? domainConfig?.cookiesFile
+  };
+
+  // 输出布局
+  const layout = (values.layout as string | undefined) ?? domainConfig?.layout;
+  if (layout !== undefined && !OUTPUT_LAYOUTS.includes(layout as OutputLayout)) {
+    throw new Error(`--layout 必须是 ${OUTPUT_LAYOUTS.join(' 或 ')}: ${layout}`);
+  }
+
+  // 代理和 CA 证书
+  const proxy = (values.proxy as string | undefined) ?? domainConfig?.proxy;
+  if (proxy) {
+    try {
+      new URL(proxy);
+    } catch (error) {
+      throw new Error(`无效的代理地址: ${proxy}`);
+    }
+  }
+
+  const caFile = (values['ca-cert'] as string | undefined) ?? domainConfig?.caFile;
+  if (caFile && !existsSync(caFile)) {
+    throw new Error(`CA 证书文件不存在: ${caFile}`);
+  }
+
+  const userAgent = (values['user-agent'] as string | undefined) ?? domainConfig?.userAgent;
+  if (userAgent !== undefined && !userAgent.trim()) {
+    throw new Error('--user-agent 不能为空');
+  }
+
   const dryRun = values['dry-run'] as boolean;
+  const resume = values.resume as boolean;
+
+  // 递归跟随相关参数
+  const maxDepth =
+    parsePositiveInt(values.depth as string | undefined, '--depth') ??
+    domainConfig?.maxDepth;
+
+  const scope =
+    (values.scope as string | undefined) ??
+    domainConfig?.scope;
+
+  if (scope) {
+    try {
+      new URL(scope);
+    } catch (error) {
+      throw new Error(`无效的范围 URL: ${scope}`);
+    }
+  }
+
+  const maxPages =
+    parsePositiveInt(values['max-pages'] as string | undefined, '--max-pages') ??
+    domainConfig?.maxPages ??
+    500;
 
   return {
     url,
     followLinksSelector,
     contentAreaSelector,
+    excludeSelectors,
+    cleanBoilerplate,
     outputDir,
     useNativeMd,
     showHelp: false,
     configPath,
     useLlmsTxt,
     includeOptional,
-    dryRun
+    dryRun,
+    maxDepth,
+    scope,
+    maxPages,
+    useSitemap,
+    resume,
+    ignoreRobotsTxt,
+    rateLimit,
+    timeout,
+    deadline,
+    auth,
+    proxy,
+    caFile,
+    userAgent,
+    layout: layout as OutputLayout | undefined,
+    preset: preset?.toLowerCase(),
+    rewriteLinks,
+    generateIndex,
+    downloadAssets,
+    assetExtensions,
+    maxAssetSize,
+    frontMatter,
+    compact,
+    stripImages,
+    bundle,
+    bundleMaxSize,
+    bundleMaxTokens,
+    chunks,
+    chunkSize,
+    maxTokens,
+    stripParams,
+    dedupe,
+    dedupeThreshold,
+    docVersion
   };
 }
 
+/**
+ * 解析正整数参数
+ * @param value 参数值
+ * @param name 参数名 (用于错误信息)
+ * @returns 解析后的整数,未指定时返回 undefined
+ */
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} 必须是正整数: ${value}`);
+  }
+
+  return parsed;
+}
+
 /**
  * 将 CLI 参数转换为 Scraper 选项
  * @param cliArgs CLI 参数
@@ -240,12 +707,113 @@ export async function parseArgs(argv: string[]): Promise<CliArgs> {
 export function cliArgsToScraperOptions(cliArgs: CliArgs): ScraperOptions {
   return {
     baseUrl: cliArgs.url,
-    followLinksSelector: cliArgs.followLinksSelector || '',
+    followLinksSelector: cliArgs.followLinksSelector,
     contentAreaSelector: cliArgs.contentAreaSelector,
+    excludeSelectors: cliArgs.excludeSelectors,
+    cleanBoilerplate: cliArgs.cleanBoilerplate,
     outputDir: cliArgs.outputDir,
     useNativeMd: cliArgs.useNativeMd,
     useLlmsTxt: cliArgs.useLlmsTxt,
     includeOptional: cliArgs.includeOptional,
-    dryRun: cliArgs.dryRun
+    dryRun: cliArgs.dryRun,
+    maxDepth: cliArgs.maxDepth,
+    scope: cliArgs.scope,
+    maxPages: cliArgs.maxPages,
+    useSitemap: cliArgs.useSitemap,
+    resume: cliArgs.resume,
+    ignoreRobotsTxt: cliArgs.ignoreRobotsTxt,
+    rateLimit: cliArgs.rateLimit,
+    timeout: cliArgs.timeout,
+    deadline: cliArgs.deadline,
+    auth: cliArgs.auth,
+    proxy: cliArgs.proxy,
+    caFile: cliArgs.caFile,
+    userAgent: cliArgs.userAgent,
+    layout: cliArgs.layout,
+    preset: cliArgs.preset,
+    rewriteLinks: cliArgs.rewriteLinks,
+    generateIndex: cliArgs.generateIndex,
+    downloadAssets: cliArgs.downloadAssets,
+    assetExtensions: cliArgs.assetExtensions,
+    maxAssetSize: cliArgs.maxAssetSize,
+    frontMatter: cliArgs.frontMatter,
+    compact: cliArgs.compact,
+    stripImages: cliArgs.stripImages,
+    bundle: cliArgs.bundle,
+    bundleMaxSize: cliArgs.bundleMaxSize,
+    bundleMaxTokens: cliArgs.bundleMaxTokens,
+    chunks: cliArgs.chunks,
+    chunkSize: cliArgs.chunkSize,
+    maxTokens: cliArgs.maxTokens,
+    stripParams: cliArgs.stripParams,
+    dedupe: cliArgs.dedupe,
+    dedupeThreshold: cliArgs.dedupeThreshold,
+    docVersion: cliArgs.docVersion
+  };
+}
+
+/**
+ * 被 Ctrl+C 或 SIGTERM 中断时的退出码 (128 + SIGINT)
+ */
+export const INTERRUPT_EXIT_CODE = 130;
+
+/**
+ * 监听 Ctrl+C 和 SIGTERM,收到信号时取消抓取
+ * 抓取取消后会保存状态和清单再结束;再次收到信号时立即退出
+ * @returns 取消信号
+ */
+export function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+
+  const onInterrupt = () => {
+    if (controller.signal.aborted) {
+      process.exit(INTERRUPT_EXIT_CODE);
+    }
+    console.log(`\n\n⏸️  正在停止,保存进度... (再次按 Ctrl+C 立即退出)`);
+    controller.abort();
   };
+  process.on('SIGINT', onInterrupt);
+  process.on('SIGTERM', onInterrupt);
+
+  return controller.signal;
+}
+
+/**
+ * 解析正数参数 (允许小数)
+ * @param value 参数值 (CLI 参数或配置文件中的值)
+ * @param name 参数名 (用于错误信息)
+ * @returns 解析后的数值,未指定时返回 undefined
+ */
+function parsePositiveNumber(value: string | number | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} 必须是正数: ${value}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * 解析 --header 参数
+ * @param values 参数值列表 (格式为 "名称: 值")
+ * @returns 请求头
+ */
+function parseHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    const name = separator === -1 ? '' : value.slice(0, separator).trim();
+    if (!name) {
+      // 不输出参数值,避免泄露密钥
+      throw new Error('--header 格式应为 "名称: 值"');
+    }
+    headers[name] = value.slice(separator + 1).trim();
+  }
+
+  return headers;
 }
@@ -0,0 +1,290 @@
+// compact.ts - 压缩 Markdown,减少放入 LLM 上下文时浪费的 token
+import { splitFrontMatter } from './front-matter';
+import { stripQueryParams, TRACKING_PARAMS } from './url';
+
+/**
+ * 压缩选项
+ */
+export interface CompactOptions {
+  stripImages?: boolean;  // 移除所有图片
+}
+
+/**
+ * Markdown 图片: ![alt](target "title")
+ */
+const IMAGE = /!\[((?:[^\[\]]|\[[^\]]*\])*)\]\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)((?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?)\s*\)/g;
+
+/**
+ * Markdown 链接 (不包括图片): [text](target "title")
+ */
+const LINK = /(?<!!)\[((?:[^\[\]]|\[[^\]]*\])*)\]\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)((?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?)\s*\)/g;
+
+/**
+ * 引用式图片: ![alt][id]
+ */
+const REFERENCE_IMAGE = /!\[[^\]]*\]\[[^\]]*\]/g;
+
+/**
+ * 引用式链接定义: [id]: target "title"
+ */
+const REFERENCE_DEFINITION = /^( {0,3}\[[^\]]+\]:\s*)(<[^>\n]*>|\S+)(.*)$/;
+
+/**
+ * HTML 图片: <img src="target">
+ */
+const HTML_IMAGE = /<img\b[^>]*>/gi;
+
+/**
+ * 围栏代码块的开始或结束 (可以位于列表项中)
+ */
+const FENCE = /^[ \t]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)?(`{3,}|~{3,})/;
+
+/**
+ * 块引用的前缀: > 或嵌套的 > >
+ */
+const QUOTE_PREFIX = /^(?:[ \t]{0,3}>[ \t]?)+/;
+
+/**
+ * 缩进代码块 (4 个空格或 Tab)
+ */
+const INDENTED = /^( {4}|\t)/;
+
+/**
+ * 块引用的嵌套层数
+ */
+function quoteDepth(line: string): number {
+  return line.match(QUOTE_PREFIX)?.[0].match(/>/g)?.length ?? 0;
+}
+
+/**
+ * 读取围栏代码块的标记 (忽略块引用前缀和列表标记)
+ * 反引号围栏的信息字符串不能包含反引号 (例如 ```code``` 是行内代码)
+ * @returns 围栏标记、之后的内容和所在块引用的层数,不是围栏时返回 null
+ */
+function fenceMarker(line: string): { marker: string; info: string; depth: number } | null {
+  const content = line.replace(QUOTE_PREFIX, '');
+  const match = content.match(FENCE);
+  if (!match) {
+    return null;
+  }
+  const marker = match[1]!;
+  const info = content.slice(match[0].length);
+  return marker.startsWith('`') && info.includes('`') ? null : { marker, info, depth: quoteDepth(line) };
+}
+
+/**
+ * 去掉尖括号包裹的链接目标的尖括号
+ */
+function unwrap(target: string): string {
+  return target.startsWith('<') && target.endsWith('>') ? target.slice(1, -1) : target;
+}
+
+/**
+ * 判断链接目标是否是 data URI
+ */
+function isDataUri(target: string): boolean {
+  return /^data:/i.test(unwrap(target).trim());
+}
+
+/**
+ * 缩短链接地址
+ * 移除跟踪参数,同站点的绝对地址改写为从根路径开始的地址,指向当前页面的锚点只保留 #fragment
+ * @param target 链接目标
+ * @param base 页面地址
+ * @returns 缩短后的地址,不需要改写时返回原地址
+ */
+export function shortenUrl(target: string, base: URL): string {
+  const inner = unwrap(target);
+  const isAbsolute = /^https?:\/\//i.test(inner);
+  // 页面内锚点和非 HTTP 协议的链接 (mailto: 等) 保持不变
+  if (!inner || inner.startsWith('#') || (!isAbsolute && /^[a-z][a-z0-9+.-]*:/i.test(inner))) {
+    return target;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(inner, base);
+  } catch (error) {
+    return target;
+  }
+
+  const tracking = stripQueryParams(url, TRACKING_PARAMS);
+
+  let shortened: string;
+  if (url.origin !== base.origin) {
+    shortened = url.href;
+  } else if (url.pathname === base.pathname && url.search === base.search && url.hash) {
+    shortened = url.hash;
+  } else {
+    shortened = url.pathname + url.search + url.hash;
+  }
+
+  // 相对地址只在移除了跟踪参数时改写
+  if (!isAbsolute && tracking === 0) {
+    return target;
+  }
+  if (shortened.length >= inner.length) {
+    return target;
+  }
+  return inner === target ? shortened : `<${shortened}>`;
+}
+
+/**
+ * 压缩一段不包含代码的文字
+ */
+function compactText(text: string, base: URL, options: CompactOptions): string {
+  let result = text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[\u200b-\u200d\ufeff]/g, '');
+
+  // 图片: data URI 和 (可选) 所有图片
+  result = result.replace(IMAGE, (match, alt: string, target: string, title: string) => {
+    if (options.stripImages || isDataUri(target)) {
+      return '';
+    }
+    return `![${alt}](${shortenUrl(target, base)}${title})`;
+  });
+  result = result.replace(HTML_IMAGE, tag => {
+    const src = tag.match(/\bsrc\s*=\s*(["'])([^"']*)\1/i)?.[2] ?? '';
+    return options.stripImages || isDataUri(src) ? '' : tag;
+  });
+  if (options.stripImages) {
+    result = result.replace(REFERENCE_IMAGE, '');
+  }
+
+  // 链接: 移除空链接和 data URI,文字与地址相同的链接改为自动链接
+  result = result.replace(LINK, (match, label: string, target: string, title: string) => {
+    const inner = unwrap(target).trim();
+    if (!label.trim()) {
+      return '';
+    }
+    if (!inner || inner === '#' || isDataUri(inner)) {
+      return label;
+    }
+    if (label === inner && /^https?:\/\/[^\s<>]+$/i.test(inner) && !title) {
+      return `<${inner}>`;
+    }
+    return `[${label}](${shortenUrl(target, base)}${title})`;
+  });
+
+  // 连续的空格合并为一个 (保留行首缩进)
+  return result.replace(/(\S)[ \t]{2,}(?=\S)/g, '$1 ');
+}
+
+/**
+ * 压缩一行文字,行内代码保持不变
+ */
+function compactLine(line: string, base: URL, options: CompactOptions): string {
+  const definition = line.match(REFERENCE_DEFINITION);
+  if (definition) {
+    const [, prefix, target, rest] = definition;
+    return isDataUri(target!) ? '' : prefix + shortenUrl(target!, base) + rest;
+  }
+
+  // 行尾的两个空格是换行,保留
+  const hardBreak = /\S {2,}$/.test(line);
+  const indent = line.match(/^[ \t]*/)![0];
+  let result = indent + line
+    .slice(indent.length)
+    .split(/(`+[^`]*`+)/)
+    .map(part => part.startsWith('`') ? part : compactText(part, base, options))
+    .join('')
+    .trim();
+
+  // 标题中的装饰性强调: ## **Title** → ## Title
+  result = result.replace(/^(#{1,6}[ \t]+)(\*\*|__|\*|_)(?!\s)([^*_]+?)\2[ \t]*$/, '$1$3');
+
+  return hardBreak && result.trim() ? `${result}  ` : result;
+}
+
+/**
+ * 压缩 Markdown: 合并多余的空行和空格,移除 data URI 图片、空链接和跟踪参数,
+ * 缩短同站点的绝对地址,并可选地移除所有图片
+ * 围栏代码块、缩进代码块、HTML <pre> 块、行内代码和 front matter 保持原样 (逐字节不变)
+ * @param markdown Markdown 内容
+ * @param baseUrl 页面地址 (用于判断同站点链接)
+ * @param options 压缩选项
+ * @returns 压缩后的 Markdown
+ */
+export function compactMarkdown(markdown: string, baseUrl: string, options: CompactOptions = {}): string {
+  const base = new URL(baseUrl);
+  const { frontMatter, body } = splitFrontMatter(markdown);
+  const lines = body.split('\n');
+  const output: string[] = [];
+
+  let fence: { marker: string; depth: number } | null = null;
+  let inPre = false;
+  let inIndented = false;
+  // front matter 与正文之间保留一个空行
+  let blank = !frontMatter;
+
+  const push = (line: string) => {
+    output.push(line);
+    blank = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    // 围栏代码块 (块引用中的围栏在块引用结束时结束)
+    if (fence && quoteDepth(line) < fence.depth) {
+      fence = null;
+    }
+    const fenceMatch = fenceMarker(line);
+    if (fence || fenceMatch) {
+      if (!fence) {
+        fence = { marker: fenceMatch!.marker, depth: fenceMatch!.depth };
+      } else if (fenceMatch && fenceMatch.marker[0] === fence.marker[0] && fenceMatch.marker.length >= fence.marker.length && !fenceMatch.info.trim()) {
+        fence = null;
+      }
+      push(line);
+      continue;
+    }
+
+    // HTML <pre> 块
+    if (inPre || /<pre\b/i.test(line)) {
+      inPre = !/<\/pre>/i.test(line);
+      push(line);
+      continue;
+    }
+
+    // 缩进代码块 (空行之后开始;在列表中的缩进内容也按代码处理,保持原样)
+    if (INDENTED.test(line) && line.trim() && (blank || inIndented)) {
+      inIndented = true;
+      push(line);
+      continue;
+    }
+
+    if (!line.trim()) {
+      // 缩进代码块中的空行保持原样
+      if (inIndented) {
+        const next = lines.slice(i + 1).find(candidate => candidate.trim());
+        if (next !== undefined && INDENTED.test(next)) {
+          output.push(line);
+          continue;
+        }
+        inIndented = false;
+      }
+      // 连续的空行合并为一个
+      if (!blank) {
+        output.push('');
+        blank = true;
+      }
+      continue;
+    }
+    inIndented = false;
+
+    // 只有图片或空链接的行整行移除
+    const compacted = compactLine(line, base, options);
+    if (compacted.trim()) {
+      push(compacted);
+    }
+  }
+
+  // 移除末尾的空行 (未闭合的代码块除外)
+  while (!fence && output.length > 0 && !output.at(-1)!.trim()) {
+    output.pop();
+  }
+
+  return frontMatter + output.join('\n') + '\n';
+}
@@ -1,6 +1,7 @@
 // config.ts - 配置文件读取和解析
 import { parse as parseToml } from 'toml';
 import { existsSync } from 'fs';
+import type { OutputLayout } from './layout';
 
 /**
  * 域名配置接口
@@ -8,10 +9,48 @@ import { existsSync } from 'fs';
 export interface DomainConfig {
   followLinksSelector?: string;
   contentAreaSelector?: string;
+  excludeSelectors?: string[];  // 转换前移除的元素 (CSS 选择器)
+  cleanBoilerplate?: boolean;   // 移除面包屑、上一页/下一页等页面框架 (默认 true)
+  preset?: string;              // 文档框架预设 ("auto" 或框架名,例如 "docusaurus")
   outputDir?: string;
   useNativeMd?: boolean;
   useLlmsTxt?: boolean;
   includeOptional?: boolean;
+  maxDepth?: number;
+  scope?: string;
+  maxPages?: number;
+  useSitemap?: boolean;
+  ignoreRobotsTxt?: boolean;
+  rateLimit?: number;
+  timeout?: number;     // 单个请求超时时间（秒）
+  deadline?: number;    // 整个抓取任务的总时限（秒）
+  headers?: Record<string, string>;  // 额外的请求头
+  bearerTokenEnv?: string;  // 保存 Bearer token 的环境变量名
+  basicAuthEnv?: string;    // 保存 Basic 认证信息 ("用户名:密码") 的环境变量名
+  basicAuth?: string;       // Basic 认证 ("用户名:密码")
+  cookiesFile?: string;     // Netscape/Mozilla 格式的 cookies.txt 路径
+  proxy?: string;           // 代理地址
+  caFile?: string;          // 额外信任的 CA 证书文件 (PEM 格式)
+  userAgent?: string;       // User-Agent 请求头 (默认 markgrab/<版本>)
+  layout?: OutputLayout;    // 输出文件布局 ("flat" 或 "path")
+  rewriteLinks?: boolean;   // 将内部链接改写为本地文件的相对路径
+  generateIndex?: boolean;  // 在输出目录生成 llms.txt 和 index.md
+  downloadAssets?: boolean;    // 下载引用的图片到 assets/ 目录
+  assetExtensions?: string[];  // 同时下载的链接文件扩展名 (例如 ["pdf"])
+  maxAssetSize?: number;       // 单个资源大小上限 (MB)
+  frontMatter?: boolean;       // 在每个文件开头写入 YAML front matter
+  compact?: boolean;           // 压缩输出 (合并空白、移除 data URI 和空链接、缩短同站点链接)
+  stripImages?: boolean;       // 压缩输出时同时移除所有图片
+  bundle?: boolean;            // 将所有页面合并为一个文件
+  bundleMaxSize?: number;      // 单个合并文件的大小上限 (KB)
+  bundleMaxTokens?: number;    // 单个合并文件的 token 上限
+  chunks?: boolean;            // 导出按标题切分的 chunks.jsonl
+  chunkSize?: number;          // 目标分块大小 (token)
+  maxTokens?: number;          // token 预算
+  stripParams?: string[];      // 规范化 URL 时额外移除的查询参数 (例如 ["tab"])
+  dedupe?: boolean;            // 移除重复页面 (默认 false)
+  dedupeThreshold?: number;    // 判断为重复页面的相似度阈值 (0-1)
+  docVersion?: string;         // 只抓取文档的一个版本 (版本名或 "latest")
 }
 
 /**
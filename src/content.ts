@@ -0,0 +1,243 @@
+// content.ts - 提取页面内容区域,移除导航、页脚等文档站点的页面框架
+import { load, type CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+/**
+ * 自动识别主要内容的内容区域选择器
+ */
+export const AUTO_CONTENT_SELECTOR = 'auto';
+
+/**
+ * 内容提取选项
+ */
+export interface ContentOptions {
+  excludeSelectors?: string[];  // 转换前移除的元素 (CSS 选择器)
+  cleanBoilerplate?: boolean;   // 移除常见的文档站点框架元素 (默认 true)
+}
+
+/**
+ * 常见文档站点框架元素的选择器
+ * (Docusaurus、MkDocs、Sphinx/Read the Docs、VitePress/VuePress、GitBook 等)
+ */
+export const BOILERPLATE_SELECTORS = [
+  // 不可见内容
+  'script', 'style', 'noscript', 'template',
+  // 面包屑
+  'nav[aria-label*="breadcrumb" i]', '.breadcrumb', '.breadcrumbs', '.theme-doc-breadcrumbs',
+  '.wy-breadcrumbs', '[itemtype*="BreadcrumbList"]',
+  // 上一页/下一页
+  '.pagination-nav', 'nav[aria-label*="pagination" i]', '.prev-next',
+  '.prev-next-links', '.rst-footer-buttons', '.md-footer__inner', '.pager', '.page-nav', '.VPDocFooterPrevNext',
+  // 反馈组件
+  '.feedback', '.page-feedback', '.md-feedback', '.was-this-helpful', '[data-feedback]',
+  // "编辑此页"
+  '.theme-edit-this-page', '.edit-this-page', '.edit-link', '.md-content__button',
+  // Cookie 提示
+  '#onetrust-consent-sdk', '.cookie-banner', '.cookie-consent', '.cc-window', '#cookie-banner',
+  // 跳转链接
+  '.skip-link', '.skip-to-content',
+  // 标题旁的永久链接
+  'a.headerlink', 'a.hash-link', 'a.header-anchor', 'a.anchor-link', '.heading-anchor'
+];
+
+/**
+ * 标题中永久链接的文字 (只包含这些符号的 #锚点链接会被移除)
+ */
+const PERMALINK_TEXT = /^[\s#¶§🔗]*$/u;
+
+/**
+ * "编辑此页" 链接的文字
+ */
+const EDIT_LINK_TEXT = /^\s*(edit (this page|on github|page)|在 github 上编辑|编辑此页)\s*$/i;
+
+/**
+ * 移除排除的元素和文档站点框架
+ * @param $ 已加载的 HTML
+ * @param options 内容提取选项
+ */
+export function cleanDocument($: CheerioAPI, options: ContentOptions = {}): void {
+  for (const selector of options.excludeSelectors ?? []) {
+    $(selector).remove();
+  }
+
+  if (options.cleanBoilerplate === false) {
+    return;
+  }
+
+  $(BOILERPLATE_SELECTORS.join(', ')).remove();
+
+  // 标题中只有 #、¶ 等符号的锚点链接
+  $('h1, h2, h3, h4, h5, h6').find('a[href^="#"]').each((_, anchor) => {
+    if (PERMALINK_TEXT.test($(anchor).text())) {
+      $(anchor).remove();
+    }
+  });
+
+  $('a').each((_, link) => {
+    if (EDIT_LINK_TEXT.test($(link).text())) {
+      $(link).remove();
+    }
+  });
+}
+
+/**
+ * 检查 CSS 选择器是否有效
+ * @param selectors 选择器列表
+ * @returns 第一个无效的选择器,全部有效时返回 undefined
+ */
+export function findInvalidSelector(selectors: string[]): string | undefined {
+  const $ = load('');
+  return selectors.find(selector => {
+    try {
+      $(selector);
+      return false;
+    } catch (error) {
+      return true;
+    }
+  });
+}
+
+/**
+ * 可以作为内容区域的元素
+ */
+const CANDIDATE_TAGS = new Set(['body', 'main', 'article', 'section', 'div', 'td']);
+
+/**
+ * 表示主要内容的语义标签
+ */
+const SEMANTIC_TAGS = new Set(['main', 'article']);
+
+/**
+ * 类名或 id 表示正文的元素
+ */
+const POSITIVE_HINT = /content|article|main|markdown|prose|docs?\b|document|post|entry|body/i;
+
+/**
+ * 类名或 id 表示页面框架的元素
+ */
+const NEGATIVE_HINT = /nav|sidebar|menu|footer|header|comment|toc|breadcrumb|banner|related|share|social|cookie|\bads?\b/i;
+
+/**
+ * 内容区域至少需要的非链接文字长度 (更短时使用整个 body)
+ */
+const MIN_CONTENT_LENGTH = 50;
+
+/**
+ * 元素的文字统计
+ */
+interface TextStats {
+  total: number;  // 文字总长度
+  link: number;   // 链接中的文字长度
+}
+
+/**
+ * 语义标签和类名对应的权重
+ */
+function candidateWeight(element: Element): number {
+  const hints = `${element.attribs.class ?? ''} ${element.attribs.id ?? ''}`;
+  let weight = 1;
+  if (SEMANTIC_TAGS.has(element.name) || element.attribs.role === 'main') {
+    weight *= 1.25;
+  }
+  if (NEGATIVE_HINT.test(hints)) {
+    weight *= 0.3;
+  } else if (POSITIVE_HINT.test(hints)) {
+    weight *= 1.1;
+  }
+  return weight;
+}
+
+/**
+ * 自动识别页面的主要内容区域
+ * 按文字密度打分: 非链接文字越多、链接和页面框架文字占比越低的元素得分越高,
+ * main、article 等语义标签和 content、markdown 等类名会提高得分,nav、sidebar、footer 等会降低得分
+ * @param $ 已加载的 HTML
+ * @returns 主要内容元素,页面没有足够的文字时返回 body
+ */
+export function detectMainContent($: CheerioAPI): Element | undefined {
+  let best: { element: Element; score: number } | undefined;
+
+  const measure = (node: AnyNode, inLink: boolean): TextStats => {
+    if (node.type === 'text') {
+      const length = node.data.replace(/\s+/g, ' ').trim().length;
+      return { total: length, link: inLink ? length : 0 };
+    }
+    if (node.type !== 'tag') {
+      return { total: 0, link: 0 };
+    }
+
+    const isLink = inLink || node.name === 'a';
+    const stats = { total: 0, link: 0 };
+    for (const child of node.children) {
+      const childStats = measure(child, isLink);
+      stats.total += childStats.total;
+      stats.link += childStats.link;
+    }
+
+    if (CANDIDATE_TAGS.has(node.name) && stats.total > 0) {
+      const text = stats.total - stats.link;
+      const score = (text * text / stats.total) * candidateWeight(node);
+      if (text >= MIN_CONTENT_LENGTH && (!best || score > best.score)) {
+        best = { element: node, score };
+      }
+    }
+
+    return stats;
+  };
+
+  $('body').toArray().forEach(body => measure(body, false));
+  return best?.element ?? $('body').toArray()[0];
+}
+
+/**
+ * 内容区域的提取结果
+ */
+export interface ExtractedContent {
+  html: string;          // 内容区域的 HTML
+  autoDetected: boolean; // 是否是自动识别的内容区域
+  description?: string;  // 页面的 meta description (或 og:description)
+  canonical?: string;    // <link rel="canonical"> 的地址 (未解析的原始值)
+}
+
+/**
+ * 读取页面的 meta description,没有时使用 og:description
+ */
+function metaDescription($: CheerioAPI): string | undefined {
+  const content = $('meta[name="description" i]').attr('content') || $('meta[property="og:description" i]').attr('content');
+  return content?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * 读取页面声明的规范地址 (<link rel="canonical">)
+ * @param $ 已加载的 HTML
+ * @returns href 原始值,没有声明时返回 undefined
+ */
+export function canonicalHref($: CheerioAPI): string | undefined {
+  return $('link[rel~="canonical" i]').first().attr('href')?.trim() || undefined;
+}
+
+/**
+ * 提取页面的内容区域 HTML、meta description 和规范地址
+ * 选择器为 "auto" 或没有匹配任何元素时自动识别主要内容
+ * @param html 页面 HTML
+ * @param contentAreaSelector 内容区域的 CSS 选择器
+ * @param options 内容提取选项
+ * @returns 内容区域的 HTML,页面为空时返回 null
+ */
+export function extractContent(html: string, contentAreaSelector: string, options: ContentOptions = {}): ExtractedContent | null {
+  const $ = load(html);
+  const description = metaDescription($);
+  const canonical = canonicalHref($);
+  cleanDocument($, options);
+
+  if (contentAreaSelector !== AUTO_CONTENT_SELECTOR) {
+    const contentHtml = $(contentAreaSelector).html();
+    if (contentHtml) {
+      return { html: contentHtml, autoDetected: false, description, canonical };
+    }
+  }
+
+  const element = detectMainContent($);
+  const contentHtml = element ? $(element).html() : null;
+  return contentHtml ? { html: contentHtml, autoDetected: true, description, canonical } : null;
+}
@@ -0,0 +1,218 @@
+// crawler.ts - 广度优先递归抓取链接
+import { load } from 'cheerio';
+import pLimit from 'p-limit';
+import type { PageLink } from './scraper';
+import { canonicalizeUrl, resolveCanonicalUrl, pageKey, defaultScope, isInScope } from './url';
+import { canonicalHref } from './content';
+import { isAllowed, type RobotsTxt } from './robots';
+import type { HostRateLimiter } from './rate-limit';
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+
+/**
+ * 递归抓取选项
+ */
+export interface CrawlOptions extends RequestOptions {
+  maxDepth?: number;       // 最大深度 (1 = 只提取入口页面上的链接)
+  scope?: string;          // URL 前缀范围,默认: 深度大于 1 时与入口页面同源,否则不限制
+  exclude?: string[];      // 范围内排除的 URL 前缀 (例如其他版本的文档)
+  maxPages?: number;       // 最多收集的页面数量
+  maxConcurrent?: number;  // 抓取页面时的最大并发数
+  robots?: RobotsTxt;      // robots.txt 规则,禁止访问的页面不会被抓取以发现链接
+  rateLimiter?: HostRateLimiter; // 按主机限速
+  stripParams?: string[];  // 规范化 URL 时额外移除的查询参数 (支持 * 通配符)
+}
+
+/**
+ * 从 HTML 中提取匹配选择器的链接
+ * 链接会被规范化 (移除 #fragment、跟踪参数和指定的查询参数),指向同一页面的不同写法只保留第一个
+ * @param html 页面 HTML
+ * @param pageUrl 页面 URL (用于解析相对链接)
+ * @param followLinksSelector 跟随链接选择器
+ * @param stripParams 额外移除的查询参数
+ * @returns 链接列表 (已去重)
+ */
+export function extractLinksFromHtml(
+  html: string,
+  pageUrl: string,
+  followLinksSelector: string,
+  stripParams: string[] = []
+): PageLink[] {
+  const $ = load(html);
+
+  const linksToScrape: PageLink[] = [];
+  const seenUrls = new Set<string>();
+
+  $(followLinksSelector).each((i, el) => {
+    const href = $(el).attr('href');
+    const title = $(el).text().trim();
+
+    if (href && title) {
+      // 过滤掉资源文件
+      if (href.includes('_next') || href.includes('sitemap') ||
+          href.includes('favicon') || title.length === 0) {
+        return;
+      }
+
+      // 将相对 URL (例如 /docs/install) 转换为绝对 URL 并规范化
+      let fullUrl: string | null;
+      try {
+        fullUrl = canonicalizeUrl(new URL(href, pageUrl).href, stripParams);
+      } catch (error) {
+        return;
+      }
+      if (!fullUrl) {
+        return;
+      }
+
+      // 去重 (末尾斜杠、index 文件等不同写法视为同一页面)
+      const key = pageKey(fullUrl) ?? fullUrl;
+      if (!seenUrls.has(key)) {
+        seenUrls.add(key);
+        linksToScrape.push({ url: fullUrl, title: title });
+      }
+    }
+  });
+
+  return linksToScrape;
+}
+
+/**
+ * 读取页面声明的规范地址 (<link rel="canonical">)
+ * @returns 规范化后的绝对地址,没有声明、无效或与页面本身相同时返回 undefined
+ */
+function canonicalUrl(html: string, pageUrl: string, stripParams: string[]): string | undefined {
+  const href = canonicalHref(load(html));
+  return href ? resolveCanonicalUrl(href, pageUrl, stripParams) : undefined;
+}
+
+/**
+ * 获取页面 HTML,非 HTML 响应或失败时返回 null
+ */
+async function fetchHtml(url: string, options: RequestOptions): Promise<string | null> {
+  try {
+    const response = await httpFetch(url, options);
+    if (!response.ok) {
+      return null;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) {
+      return null;
+    }
+
+    return await response.text();
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 从入口页面开始广度优先抓取文档链接
+ * 每一层只跟随上一层新发现的页面,已访问的 URL 不会重复加入。
+ * 获取过的页面声明了其他规范地址 (<link rel="canonical">) 时使用规范地址,规范地址已在列表中时移除该页面
+ * @param baseUrl 入口 URL
+ * @param followLinksSelector 跟随链接选择器
+ * @param options 递归抓取选项
+ * @returns 按发现顺序排列的链接列表 (不包含入口页面本身)
+ */
+export async function crawlLinks(
+  baseUrl: string,
+  followLinksSelector: string,
+  options: CrawlOptions = {}
+): Promise<PageLink[]> {
+  const {
+    maxDepth = 1,
+    scope = maxDepth > 1 ? defaultScope(baseUrl) : undefined,
+    exclude = [],
+    maxPages = Infinity,
+    maxConcurrent = 10,
+    robots,
+    rateLimiter,
+    stripParams = [],
+    signal
+  } = options;
+
+  // 已访问的页面 (按页面键比较)
+  const visited = new Set<string>();
+  const visit = (url: string | undefined) => {
+    const key = url ? pageKey(url) : null;
+    if (key) {
+      visited.add(key);
+    }
+  };
+  const isVisited = (url: string) => visited.has(pageKey(url) ?? url);
+  const inScope = (url: string) =>
+    (scope === undefined || isInScope(url, scope)) && !exclude.some(prefix => isInScope(url, prefix));
+
+  const results: PageLink[] = [];
+  const limit = pLimit(maxConcurrent);
+
+  // 入口页面被 robots.txt 禁止或获取失败时直接抛出
+  if (robots && !isAllowed(robots, baseUrl)) {
+    throw new Error(`robots.txt 禁止抓取入口页面: ${baseUrl}`);
+  }
+  await rateLimiter?.acquire(baseUrl, signal);
+  const entryResponse = await httpFetch(baseUrl, options);
+  if (!entryResponse.ok) {
+    await entryResponse.body?.cancel();
+    throw new Error(`获取入口页面失败: HTTP ${entryResponse.status}: ${entryResponse.statusText}`);
+  }
+  const entryHtml = await entryResponse.text();
+  visit(baseUrl);
+  visit(canonicalUrl(entryHtml, baseUrl, stripParams));
+
+  let frontier: Array<{ url: string; html: string | null }> = [{ url: baseUrl, html: entryHtml }];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const nextUrls: string[] = [];
+
+    for (const page of frontier) {
+      if (!page.html) continue;
+
+      for (const link of extractLinksFromHtml(page.html, page.url, followLinksSelector, stripParams)) {
+        if (results.length >= maxPages) break;
+        if (isVisited(link.url)) continue;
+        if (!inScope(link.url)) continue;
+
+        visit(link.url);
+        results.push(link);
+        nextUrls.push(link.url);
+      }
+    }
+
+    // 达到最大深度或页面上限后不再继续抓取下一层
+    if (depth === maxDepth || results.length >= maxPages) {
+      break;
+    }
+
+    frontier = await Promise.all(
+      nextUrls
+        .filter(url => !robots || isAllowed(robots, url))
+        .map(url => limit(async () => {
+          await rateLimiter?.acquire(url, signal);
+          return { url, html: await fetchHtml(url, options) };
+        }))
+    );
+
+    // 页面获取失败会被忽略,但任务被取消时需要停止
+    signal?.throwIfAborted();
+
+    // 使用页面声明的规范地址,规范地址已在列表中时移除别名页面
+    for (const page of frontier) {
+      const canonical = page.html ? canonicalUrl(page.html, page.url, stripParams) : undefined;
+      if (!canonical || !inScope(canonical)) continue;
+
+      const index = results.findIndex(link => link.url === page.url);
+      if (index < 0) continue;
+      if (isVisited(canonical)) {
+        results.splice(index, 1);
+      } else {
+        visit(canonical);
+        results[index] = { ...results[index]!, url: canonical };
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,261 @@
+// duplicates.ts - 检测同一内容出现在多个 URL 下的重复页面
+import { existsSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import type { PageLink } from './scraper';
+import type { Manifest, ManifestEntry } from './manifest';
+import { splitFrontMatter } from './front-matter';
+import { pageKey } from './url';
+
+/**
+ * 默认的相似度阈值 (两个页面的词组重合度达到此值时视为重复)
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+
+/**
+ * 词组 (shingle) 的长度 (词)
+ */
+const SHINGLE_SIZE = 5;
+
+/**
+ * MinHash 签名的长度
+ */
+const SIGNATURE_SIZE = 64;
+
+/**
+ * LSH 分段的每段长度,相似的签名至少有一段完全相同时才会被比较
+ */
+const BAND_SIZE = 4;
+
+/**
+ * 词组太少的页面 (例如只有标题的页面) 只比较完全相同的内容
+ */
+const MIN_SHINGLES = 10;
+
+/**
+ * 判断为重复的原因
+ */
+export type DuplicateReason = 'canonical' | 'identical' | 'similar';
+
+/**
+ * 被移除的重复页面
+ */
+export interface Duplicate {
+  url: string;           // 重复页面的 URL
+  contentUrl: string;    // 重复页面实际提供内容的 URL
+  file: string;          // 已删除的文件 (相对于输出目录)
+  duplicateOf: string;   // 保留的页面 URL
+  keptFile: string;      // 保留的文件 (相对于输出目录)
+  reason: DuplicateReason;
+  similarity?: number;   // 估算的相似度 (reason 为 similar 时)
+}
+
+/**
+ * 参与比较的页面
+ */
+interface Candidate {
+  entry: ManifestEntry;
+  signature: Uint32Array;
+}
+
+/**
+ * 32 位 FNV-1a 哈希
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MinHash 使用的哈希种子 (固定值,保证结果可重复)
+ */
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => fnv1a(`markgrab-minhash-${index}`));
+
+/**
+ * 将 32 位整数打散 (用于从一个哈希值派生多个哈希函数)
+ */
+function mix(value: number): number {
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b);
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35);
+  return (value ^ (value >>> 16)) >>> 0;
+}
+
+/**
+ * 将文本拆分为词组并计算哈希
+ * 中日韩文字按字切分,其他文字按单词切分,忽略大小写和标点
+ */
+function shingles(text: string): Set<number> {
+  const words = text
+    .toLowerCase()
+    .match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+/gu) ?? [];
+  const result = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return result;
+}
+
+/**
+ * 计算 MinHash 签名,两个签名中相同位置的比例约等于词组集合的 Jaccard 相似度
+ */
+function minhash(hashes: Set<number>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const hash of hashes) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(hash ^ SEEDS[i]!);
+      if (value < signature[i]!) {
+        signature[i] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * 估算两个签名对应页面的相似度
+ */
+function similarity(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) {
+      same++;
+    }
+  }
+  return same / SIGNATURE_SIZE;
+}
+
+/**
+ * 查找重复页面
+ * 按页面列表的顺序比较本次抓取的页面,先出现的页面保留,之后出现的重复页面会被报告:
+ * 1. 页面声明的规范地址 (<link rel="canonical">) 是本次抓取的另一个页面
+ * 2. 内容哈希与之前的页面相同
+ * 3. 词组的 MinHash 相似度达到阈值
+ * @param links 本次抓取的全部页面 (按 llms.txt 或导航顺序)
+ * @param entries 清单中的所有记录
+ * @param outputDir 输出目录 (<output>/<域名>)
+ * @param threshold 相似度阈值 (0-1)
+ * @returns 重复页面列表
+ */
+export async function findDuplicates(
+  links: PageLink[],
+  entries: ManifestEntry[],
+  outputDir: string,
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): Promise<Duplicate[]> {
+  const byUrl = new Map(entries.map(entry => [entry.url, entry]));
+  const pages: ManifestEntry[] = [];
+  const seenFiles = new Set<string>();
+  for (const link of links) {
+    const entry = byUrl.get(link.url);
+    if (entry && !seenFiles.has(entry.file) && existsSync(join(outputDir, entry.file))) {
+      seenFiles.add(entry.file);
+      pages.push(entry);
+    }
+  }
+
+  const duplicates: Duplicate[] = [];
+  const dropped = new Set<string>();
+  const drop = (entry: ManifestEntry, kept: ManifestEntry, reason: DuplicateReason, score?: number) => {
+    dropped.add(entry.url);
+    duplicates.push({
+      url: entry.url,
+      contentUrl: entry.contentUrl,
+      file: entry.file,
+      duplicateOf: kept.url,
+      keptFile: kept.file,
+      reason,
+      similarity: score
+    });
+  };
+
+  // 1. 规范地址指向本次抓取的另一个页面
+  const byKey = new Map<string, ManifestEntry>();
+  for (const entry of pages) {
+    const key = pageKey(entry.url);
+    if (key && !byKey.has(key)) {
+      byKey.set(key, entry);
+    }
+  }
+  for (const entry of pages) {
+    const key = entry.canonicalUrl ? pageKey(entry.canonicalUrl) : null;
+    const kept = key ? byKey.get(key) : undefined;
+    if (kept && kept !== entry && !dropped.has(kept.url)) {
+      drop(entry, kept, 'canonical');
+    }
+  }
+
+  // 2. 内容相同,3. 内容高度相似 (LSH 分段找出候选页面后比较签名)
+  const byHash = new Map<string, ManifestEntry>();
+  const bands = new Map<string, Candidate[]>();
+  for (const entry of pages) {
+    if (dropped.has(entry.url)) {
+      continue;
+    }
+
+    const identical = byHash.get(entry.hash);
+    if (identical) {
+      drop(entry, identical, 'identical');
+      continue;
+    }
+    byHash.set(entry.hash, entry);
+
+    const { body } = splitFrontMatter(await Bun.file(join(outputDir, entry.file)).text());
+    const hashes = shingles(body);
+    if (hashes.size < MIN_SHINGLES) {
+      continue;
+    }
+    const candidate: Candidate = { entry, signature: minhash(hashes) };
+
+    const keys: string[] = [];
+    for (let start = 0; start < SIGNATURE_SIZE; start += BAND_SIZE) {
+      keys.push(`${start}:${candidate.signature.slice(start, start + BAND_SIZE).join(',')}`);
+    }
+
+    let best: { kept: Candidate; score: number } | undefined;
+    for (const other of new Set(keys.flatMap(key => bands.get(key) ?? []))) {
+      const score = similarity(candidate.signature, other.signature);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { kept: other, score };
+      }
+    }
+    if (best) {
+      drop(entry, best.kept.entry, 'similar', Math.round(best.score * 100) / 100);
+      continue;
+    }
+
+    for (const key of keys) {
+      bands.set(key, [...bands.get(key) ?? [], candidate]);
+    }
+  }
+
+  // 规范地址指向的页面本身也是重复页面时,改为指向最终保留的页面
+  const byDuplicateUrl = new Map(duplicates.map(duplicate => [duplicate.url, duplicate]));
+  for (const duplicate of duplicates) {
+    const kept = byDuplicateUrl.get(duplicate.duplicateOf);
+    if (kept) {
+      duplicate.duplicateOf = kept.duplicateOf;
+      duplicate.keptFile = kept.keptFile;
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * 删除重复页面的文件,并在清单中将其标记为重复页面
+ * @param duplicates 重复页面
+ * @param manifest 增量抓取清单
+ * @param outputDir 输出目录 (<output>/<域名>)
+ */
+export function removeDuplicates(duplicates: Duplicate[], manifest: Manifest, outputDir: string): void {
+  for (const duplicate of duplicates) {
+    const filePath = join(outputDir, duplicate.file);
+    if (existsSync(filePath)) {
+      unlinkSync(filePath);
+    }
+    manifest.markDuplicate(duplicate.url, duplicate.duplicateOf);
+  }
+}
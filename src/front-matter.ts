@@ -0,0 +1,94 @@
+// front-matter.ts - 生成 Markdown 文件开头的 YAML front matter (来源信息)
+
+/**
+ * 内容来源
+ * - native: 网站提供的原生 Markdown
+ * - html: HTML 页面转换
+ * - full-content: llms.txt 中的完整内容文件 (如 llms-full.txt)
+ */
+export type ContentSource = 'native' | 'html' | 'full-content';
+
+/**
+ * 页面来源信息
+ */
+export interface PageMetadata {
+  sourceUrl: string;        // 页面 URL
+  title: string;            // 页面标题
+  llmsSection?: string;     // llms.txt 中所在的部分
+  llmsNotes?: string;       // llms.txt 中的说明文字
+  fetchedAt: string;        // 抓取时间 (ISO 8601)
+  contentHash: string;      // 内容哈希 (sha256,不含 front matter)
+  source: ContentSource;    // 内容来源
+}
+
+/**
+ * 将字符串转换为 YAML 双引号字符串 (JSON 字符串是合法的 YAML)
+ */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * 生成 YAML front matter
+ * 原生 Markdown 自带 front matter 时合并为一个,同名字段以来源信息为准
+ * @param metadata 页面来源信息
+ * @param existing 内容原有的 front matter (包含 --- 分隔行)
+ * @returns 以 --- 包裹的 front matter (末尾带空行)
+ */
+export function renderFrontMatter(metadata: PageMetadata, existing: string = ''): string {
+  const fields: Array<[string, string | undefined]> = [
+    ['source_url', metadata.sourceUrl],
+    ['title', metadata.title],
+    ['llms_section', metadata.llmsSection],
+    ['llms_notes', metadata.llmsNotes],
+    ['fetched_at', metadata.fetchedAt],
+    ['content_hash', metadata.contentHash],
+    ['source', metadata.source]
+  ];
+
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${yamlString(value!)}`);
+
+  const keys = new Set(fields.map(([key]) => key));
+  return `---\n${[...lines, ...existingLines(existing, keys)].join('\n')}\n---\n\n`;
+}
+
+/**
+ * 读取原有 front matter 中的字段行,跳过与来源信息同名的顶层字段 (及其缩进的续行)
+ */
+function existingLines(existing: string, keys: Set<string>): string[] {
+  const lines = existing.split(/\r?\n/).slice(1).filter(line => !/^---\s*$/.test(line));
+  const result: string[] = [];
+  let skipping = false;
+
+  for (const line of lines) {
+    const key = line.match(/^([^\s#:][^:]*):/)?.[1]?.trim();
+    if (key !== undefined) {
+      skipping = keys.has(key);
+    }
+    if (!skipping && line.trim()) {
+      result.push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 匹配文件开头的 front matter
+ */
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * 分离文件开头的 front matter 和正文
+ * @param markdown Markdown 内容
+ * @returns front matter (没有时为空字符串) 和正文
+ */
+export function splitFrontMatter(markdown: string): { frontMatter: string; body: string } {
+  const match = markdown.match(FRONT_MATTER);
+  if (!match) {
+    return { frontMatter: '', body: markdown };
+  }
+  return { frontMatter: match[0], body: markdown.slice(match[0].length) };
+}
@@ -0,0 +1,140 @@
+// http.ts - 统一的 HTTP 客户端 (代理和自定义 CA 证书)
+import { readFileSync, existsSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { requestInit, type RequestOptions } from './request';
+
+/**
+ * 已读取的 CA 证书 (按文件路径缓存)
+ */
+const caCertificates = new Map<string, string>();
+
+/**
+ * 读取环境变量 (同时支持小写和大写形式,小写优先)
+ */
+function env(name: string): string | undefined {
+  return process.env[name.toLowerCase()] || process.env[name.toUpperCase()] || undefined;
+}
+
+/**
+ * 判断 URL 是否匹配 NO_PROXY 规则
+ * 支持逗号或空格分隔的主机名、域名后缀 (.example.com 或 example.com)、host:port 和 *
+ * @param url 请求 URL
+ * @param noProxy NO_PROXY 的值
+ * @returns 是否应该直接连接
+ */
+export function matchesNoProxy(url: string, noProxy: string): boolean {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  const host = urlObj.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = urlObj.port || (urlObj.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+
+      // 带端口的规则只匹配该端口
+      const portMatch = entry.match(/^(.+):(\d+)$/);
+      if (portMatch && !entry.startsWith('[')) {
+        if (portMatch[2] !== port) return false;
+        entry = portMatch[1]!;
+      }
+
+      const domain = entry.replace(/^\*?\./, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * 确定请求使用的代理
+ * 优先使用显式指定的代理,否则读取 HTTPS_PROXY / HTTP_PROXY / ALL_PROXY 环境变量;
+ * 匹配 NO_PROXY 的主机始终直接连接
+ * @param url 请求 URL
+ * @param proxy 显式指定的代理地址
+ * @returns 代理地址,不使用代理时返回 undefined
+ */
+export function resolveProxy(url: string, proxy?: string): string | undefined {
+  const noProxy = env('no_proxy');
+  if (noProxy && matchesNoProxy(url, noProxy)) {
+    return undefined;
+  }
+
+  if (proxy) {
+    return proxy;
+  }
+
+  const isHttps = url.startsWith('https:');
+  return (isHttps ? env('https_proxy') : env('http_proxy')) ?? env('all_proxy');
+}
+
+/**
+ * 隐藏代理地址中的用户名和密码,用于日志
+ * @param proxy 代理地址
+ * @returns 不包含凭据的地址
+ */
+export function redactProxy(proxy: string): string {
+  try {
+    const urlObj = new URL(proxy);
+    if (urlObj.username || urlObj.password) {
+      urlObj.username = '***';
+      urlObj.password = '';
+    }
+    return urlObj.href.replace(/\/$/, '');
+  } catch (error) {
+    return proxy;
+  }
+}
+
+/**
+ * 读取额外的 CA 证书文件 (PEM 格式)
+ * @param caFile 证书文件路径
+ * @returns 证书内容
+ */
+function loadCaCertificate(caFile: string): string {
+  let ca = caCertificates.get(caFile);
+  if (ca === undefined) {
+    if (!existsSync(caFile)) {
+      throw new Error(`CA 证书文件不存在: ${caFile}`);
+    }
+    ca = readFileSync(caFile, 'utf-8');
+    caCertificates.set(caFile, ca);
+  }
+  return ca;
+}
+
+/**
+ * 发送 HTTP 请求
+ * 所有网络请求都应通过此函数发送,统一处理超时、取消、认证、代理和自定义 CA 证书
+ * @param url 请求 URL
+ * @param options 请求选项
+ * @param init 额外的 fetch 选项 (例如条件请求头)
+ * @returns 响应
+ */
+export async function httpFetch(
+  url: string,
+  options: RequestOptions = {},
+  init: RequestInit = {}
+): Promise<Response> {
+  const proxy = resolveProxy(url, options.proxy);
+
+  // 额外的 CA 证书与系统内置的根证书一起使用 (未指定时读取 NODE_EXTRA_CA_CERTS)
+  const caFile = options.caFile ?? process.env.NODE_EXTRA_CA_CERTS;
+  const tls = caFile
+    ? { ca: [...rootCertificates, loadCaCertificate(caFile)] }
+    : undefined;
+
+  return fetch(url, {
+    ...requestInit(url, options, init),
+    ...(proxy ? { proxy } : {}),
+    ...(tls ? { tls } : {})
+  });
+}
@@ -1,12 +1,14 @@
 #!/usr/bin/env bun
 // index.ts - 程序入口
 import { scrape } from './scraper';
-import { parseArgs, showHelp, cliArgsToScraperOptions } from './cli';
+import { parseArgs, showHelp, cliArgsToScraperOptions, interruptSignal, INTERRUPT_EXIT_CODE } from './cli';
 
 /**
  * 主函数
  */
 async function main() {
+  let signal: AbortSignal | undefined;
+
   try {
     const args = Bun.argv.slice(2);
 
@@ -27,9 +29,9 @@ async function main() {
       process.exit(0);
     }
 
-    // 转换为 scraper 选项并执行抓取
-    const options = cliArgsToScraperOptions(cliArgs);
-    await scrape(options);
+    // 转换为 scraper 选项并执行抓取,Ctrl+C 时取消抓取
+    signal = interruptSignal();
+    await scrape({ ...cliArgsToScraperOptions(cliArgs), signal });
 
   } catch (error) {
     if (error instanceof Error) {
@@ -37,7 +39,7 @@ async function main() {
     } else {
       console.error('❌ 发生未知错误:', error);
     }
-    process.exit(1);
+    process.exit(signal?.aborted ? INTERRUPT_EXIT_CODE : 1);
   }
 }
 
@@ -0,0 +1,214 @@
+// layout.ts - 输出文件布局和文件名处理
+import type { PageLink } from './scraper';
+import { isBundleFile } from './bundle';
+
+/**
+ * 输出文件布局
+ * - flat: 所有文件平铺在 <output>/<域名>/ 下,以页面标题命名
+ * - path: 按 URL 路径建立目录结构 (例如 /docs/guides/routing/ → docs/guides/routing/index.md)
+ */
+export type OutputLayout = 'flat' | 'path';
+
+export const OUTPUT_LAYOUTS: OutputLayout[] = ['flat', 'path'];
+
+/**
+ * 单个路径片段的最大字节数 (大多数文件系统限制为 255 字节,预留后缀和扩展名的空间)
+ */
+const MAX_SEGMENT_BYTES = 200;
+
+/**
+ * Windows 保留的设备名 (不区分大小写,带扩展名也不可用)
+ */
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * 被视为页面扩展名的后缀,在 path 布局中替换为 .md
+ */
+const PAGE_EXTENSION = /\.(html?|md|mdx|markdown|php|aspx?|jsp|txt)$/i;
+
+/**
+ * 清理字符串,使其成为有效的文件名
+ * 保留任意语言的字母和数字 (例如中文、日文标题)
+ * @param text 输入字符串 (例如 "API > Bun.Glob")
+ * @returns 清理后的文件名 (例如 "api_bun_glob")
+ */
+export function sanitizeFilename(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/>/g, '') // 移除 >
+    .replace(/[^\p{L}\p{M}\p{N}\s.-]/gu, '') // 移除特殊字符
+    .replace(/[\s.-]+/g, '_') // 替换空格和点为下划线
+    .toLowerCase();
+}
+
+/**
+ * 按 UTF-8 字节数截断字符串 (不会截断在多字节字符中间)
+ */
+function truncateBytes(text: string, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(text).length <= maxBytes) {
+    return text;
+  }
+
+  let result = '';
+  let bytes = 0;
+  for (const char of text) {
+    bytes += encoder.encode(char).length;
+    if (bytes > maxBytes) break;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * 清理单个路径片段,使其在 Windows、macOS 和 Linux 上都是安全的文件名
+ * 保留 Unicode 字符,只替换文件系统不允许的字符
+ * @param segment 路径片段 (已解码)
+ * @returns 安全的文件名片段
+ */
+export function sanitizePathSegment(segment: string): string {
+  let result = segment
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f<>:"/\\|?*]/g, '_')
+    .replace(/\s+/g, ' ')
+    // 开头的点会生成隐藏文件 (以及 . 和 ..),Windows 不允许结尾的点和空格
+    .replace(/^[.\s]+|[.\s]+$/g, '');
+
+  if (WINDOWS_RESERVED.test(result)) {
+    result = `${result}_`;
+  }
+
+  return truncateBytes(result, MAX_SEGMENT_BYTES) || '_';
+}
+
+/**
+ * 解码 URL 路径片段,无效的编码保持原样
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    return segment;
+  }
+}
+
+/**
+ * 根据 URL 路径生成相对文件路径 (path 布局)
+ * 以 / 结尾的路径保存为 index.md,页面扩展名替换为 .md,查询参数附加在文件名后
+ * @param url 页面 URL
+ * @returns 相对于输出目录的文件路径 (例如 "docs/guides/routing/index.md")
+ */
+export function urlToFilePath(url: string): string {
+  const urlObj = new URL(url);
+  const segments = urlObj.pathname
+    .split('/')
+    .filter(Boolean)
+    .map(segment => sanitizePathSegment(decodeSegment(segment)));
+
+  let name: string;
+  if (urlObj.pathname.endsWith('/') || segments.length === 0) {
+    name = 'index';
+  } else {
+    name = segments.pop()!.replace(PAGE_EXTENSION, '') || 'index';
+  }
+
+  if (urlObj.search.length > 1) {
+    name = `${name}_${decodeSegment(urlObj.search.slice(1))}`;
+  }
+
+  return [...segments, sanitizePathSegment(name)].join('/') + '.md';
+}
+
+/**
+ * 生成页面的默认文件路径 (不处理冲突)
+ * 与合并文件的保留文件名 (_bundle.md) 相同时添加下划线
+ * @param link 页面链接
+ * @param layout 输出布局
+ * @returns 相对于输出目录的文件路径
+ */
+export function outputFile(link: PageLink, layout: OutputLayout = 'flat'): string {
+  let file: string;
+  if (layout === 'path') {
+    file = urlToFilePath(link.url);
+  } else {
+    // 标题清理后为空时 (例如只有标点符号) 使用 URL 路径的最后一段
+    const name = sanitizeFilename(link.title) || sanitizeFilename(urlToFilePath(link.url).split('/').pop()!.replace(/\.md$/, ''));
+    file = `${sanitizePathSegment(name || 'index')}.md`;
+  }
+
+  return isBundleFile(file) ? file.replace(/\.md$/, '_.md') : file;
+}
+
+/**
+ * 文件名冲突
+ */
+export interface FileCollision {
+  file: string;      // 冲突的文件路径
+  urls: string[];    // 映射到该路径的页面 (第一个保留原文件名)
+}
+
+/**
+ * 比较文件路径时使用的键
+ * macOS 和 Windows 的文件系统默认不区分大小写
+ */
+function collisionKey(file: string): string {
+  return file.normalize('NFC').toLowerCase();
+}
+
+/**
+ * 为所有页面分配输出文件路径,并处理文件名冲突
+ * 冲突的页面按 URL 排序,第一个保留原文件名,其余依次添加 -2、-3 等后缀,
+ * 因此结果与页面的发现顺序无关
+ * @param links 页面链接
+ * @param layout 输出布局
+ * @returns 设置了 file 的页面链接和冲突列表
+ */
+export function planOutputFiles(
+  links: PageLink[],
+  layout: OutputLayout = 'flat'
+): { links: PageLink[]; collisions: FileCollision[] } {
+  // 按默认文件路径分组
+  const defaults = new Map<PageLink, string>();
+  const groups = new Map<string, PageLink[]>();
+  for (const link of links) {
+    const file = link.file ?? outputFile(link, layout);
+    const key = collisionKey(file);
+    defaults.set(link, file);
+    groups.set(key, [...groups.get(key) ?? [], link]);
+  }
+
+  const taken = new Set(groups.keys());
+  const assigned = new Map<PageLink, string>();
+  const collisions: FileCollision[] = [];
+
+  for (const key of [...groups.keys()].sort()) {
+    const sorted = [...groups.get(key)!].sort((a, b) => a.url < b.url ? -1 : a.url > b.url ? 1 : 0);
+    const first = defaults.get(sorted[0]!)!;
+
+    sorted.forEach((link, index) => {
+      if (index === 0) {
+        assigned.set(link, first);
+        return;
+      }
+
+      // 找到第一个未被占用的后缀
+      const base = first.replace(/\.md$/, '');
+      let suffix = index + 1;
+      while (taken.has(collisionKey(`${base}-${suffix}.md`))) {
+        suffix++;
+      }
+      const file = `${base}-${suffix}.md`;
+      taken.add(collisionKey(file));
+      assigned.set(link, file);
+    });
+
+    if (sorted.length > 1) {
+      collisions.push({ file: first, urls: sorted.map(link => link.url) });
+    }
+  }
+
+  return {
+    links: links.map(link => ({ ...link, file: assigned.get(link)! })),
+    collisions
+  };
+}
@@ -0,0 +1,221 @@
+// links.ts - 将 Markdown 中的内部链接改写为本地文件的相对路径
+import { posix } from 'path';
+import { normalizeUrl, pageKey } from './url';
+import { splitFrontMatter } from './front-matter';
+
+/**
+ * 已抓取的页面 (URL 与输出文件的对应关系)
+ */
+export interface LocalPage {
+  url: string;          // 页面 URL
+  file: string;         // 输出文件路径 (相对于输出目录)
+  contentUrl?: string;  // 实际提供内容的 URL (原生 Markdown 地址)
+}
+
+/**
+ * URL 到本地文件的索引
+ */
+export class LinkIndex {
+  private exact = new Map<string, string>();
+  private loose = new Map<string, string>();
+  private files: Set<string>;
+
+  /**
+   * @param pages 已抓取的页面
+   * @param extraFiles 其他本地文件 (例如下载的资源),指向它们的相对链接保持不变
+   */
+  constructor(pages: LocalPage[], extraFiles: string[] = []) {
+    for (const page of pages) {
+      for (const url of [page.url, page.contentUrl]) {
+        if (!url) continue;
+
+        const normalized = normalizeUrl(url);
+        const key = pageKey(url);
+        if (normalized && !this.exact.has(normalized)) this.exact.set(normalized, page.file);
+        if (key && !this.loose.has(key)) this.loose.set(key, page.file);
+      }
+    }
+    this.files = new Set([...pages.map(page => page.file), ...extraFiles]);
+  }
+
+  /**
+   * 查找 URL 对应的本地文件
+   * @param url 绝对 URL
+   * @returns 相对于输出目录的文件路径,未抓取时返回 undefined
+   */
+  resolve(url: string): string | undefined {
+    const normalized = normalizeUrl(url);
+    if (normalized && this.exact.has(normalized)) {
+      return this.exact.get(normalized);
+    }
+    const key = pageKey(url);
+    return key ? this.loose.get(key) : undefined;
+  }
+
+  /**
+   * 判断相对于输出目录的路径是否是已抓取的本地文件
+   */
+  hasFile(file: string): boolean {
+    return this.files.has(file);
+  }
+}
+
+/**
+ * 编码 Markdown 链接目标中的特殊字符 (空格和括号)
+ */
+export function encodeLinkPath(path: string): string {
+  return path.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * 改写单个链接目标
+ * @returns 新的链接目标,不需要改写时返回 undefined
+ */
+function rewriteTarget(target: string, baseUrl: string, fromFile: string, index: LinkIndex): string | undefined {
+  // 页面内锚点和非 HTTP 协议的链接 (mailto:、data: 等) 保持不变
+  if (!target || target.startsWith('#') || /^(?!https?:)[a-z][a-z0-9+.-]*:/i.test(target)) {
+    return undefined;
+  }
+
+  const isRelative = !/^(https?:)?\/\//i.test(target);
+  const fromDir = posix.dirname(fromFile);
+
+  // 已经指向本地 Markdown 文件的相对链接 (之前改写过) 保持不变
+  if (isRelative && !target.startsWith('/')) {
+    let localPath = target.split('#')[0]!;
+    try {
+      localPath = decodeURI(localPath);
+    } catch (error) {
+      // 保持原样
+    }
+    if (index.hasFile(posix.normalize(posix.join(fromDir, localPath)))) {
+      return undefined;
+    }
+  }
+
+  let absolute: URL;
+  try {
+    absolute = new URL(target, baseUrl);
+  } catch (error) {
+    return undefined;
+  }
+
+  const file = index.resolve(absolute.href);
+  if (!file) {
+    // 未抓取的页面使用绝对地址,避免本地副本中出现失效的相对链接
+    return isRelative ? absolute.href : undefined;
+  }
+
+  if (file === fromFile && absolute.hash) {
+    return absolute.hash;
+  }
+
+  return encodeLinkPath(posix.relative(fromDir, file)) + absolute.hash;
+}
+
+/**
+ * Markdown 行内链接和图片: [text](target "title") 或 ![alt](target)
+ */
+const INLINE_LINK = /(!?)(\[(?:[^\[\]]|\[[^\]]*\])*\]\(\s*)(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?=(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\))/g;
+
+/**
+ * Markdown 引用式链接定义: [id]: target "title"
+ */
+const REFERENCE_DEFINITION = /^( {0,3}\[[^\]]+\]:\s*)(<[^>\n]*>|\S+)/;
+
+/**
+ * Markdown 中的 HTML 图片: <img src="target">
+ */
+const HTML_IMAGE = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']*)\2/gi;
+
+/**
+ * 替换 Markdown 中的链接目标
+ * 处理行内链接、图片、引用式链接定义和 HTML <img>,跳过 front matter、代码块和行内代码
+ * @param markdown Markdown 内容
+ * @param replace 替换函数,返回 undefined 表示保持不变 (isImage 表示目标是图片)
+ * @returns 替换后的内容
+ */
+export function replaceMarkdownTargets(
+  markdown: string,
+  replace: (target: string, isImage: boolean) => string | undefined
+): string {
+  let fence: string | null = null;
+
+  // 尖括号包裹的目标 (<url>) 替换后保留尖括号
+  const rewrite = (target: string, isImage: boolean): string => {
+    const wrapped = target.startsWith('<') && target.endsWith('>');
+    const inner = wrapped ? target.slice(1, -1) : target;
+    const replacement = replace(inner, isImage);
+    if (replacement === undefined) {
+      return target;
+    }
+    return wrapped ? `<${replacement}>` : replacement;
+  };
+
+  const { frontMatter, body } = splitFrontMatter(markdown);
+
+  return frontMatter + body.split('\n').map(line => {
+    // 跳过围栏代码块
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return line;
+    }
+    if (fence) {
+      return line;
+    }
+
+    const definition = line.match(REFERENCE_DEFINITION);
+    if (definition) {
+      return definition[1] + rewrite(definition[2]!, false) + line.slice(definition[0].length);
+    }
+
+    // 跳过行内代码
+    return line
+      .split(/(`+[^`]*`+)/)
+      .map(part => {
+        if (part.startsWith('`')) {
+          return part;
+        }
+        return part
+          .replace(INLINE_LINK, (match, bang: string, prefix: string, target: string) => bang + prefix + rewrite(target, bang === '!'))
+          .replace(HTML_IMAGE, (match, prefix: string, quote: string, target: string) => `${prefix}${quote}${rewrite(target, true)}${quote}`);
+      })
+      .join('');
+  }).join('\n');
+}
+
+/**
+ * 改写 Markdown 中的链接
+ * 指向已抓取页面的链接 (包括 #fragment) 改写为本地 .md 文件的相对路径,
+ * 指向未抓取页面的相对链接改写为绝对地址。代码块和行内代码中的内容不会被修改。
+ * @param markdown Markdown 内容
+ * @param baseUrl 解析相对链接时使用的基础 URL (页面或原生 Markdown 的地址)
+ * @param fromFile 当前文件路径 (相对于输出目录)
+ * @param index URL 到本地文件的索引
+ * @returns 改写后的内容和改写的链接数量
+ */
+export function rewriteMarkdownLinks(
+  markdown: string,
+  baseUrl: string,
+  fromFile: string,
+  index: LinkIndex
+): { markdown: string; rewritten: number } {
+  let rewritten = 0;
+
+  const result = replaceMarkdownTargets(markdown, target => {
+    const replacement = rewriteTarget(target, baseUrl, fromFile, index);
+    if (replacement === undefined || replacement === target) {
+      return undefined;
+    }
+    rewritten++;
+    return replacement;
+  });
+
+  return { markdown: result, rewritten };
+}
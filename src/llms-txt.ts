@@ -1,5 +1,8 @@
 // llms-txt.ts - llms.txt 文件解析和处理
 import type { PageLink } from './scraper';
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+import { canonicalizeUrl, pageKey } from './url';
 
 /**
  * llms.txt 文件中的单个链接
@@ -32,15 +35,16 @@ export interface LlmsTxtContent {
 /**
  * 尝试获取网站的 llms.txt 文件
  * @param baseUrl 网站的基础 URL
+ * @param options 请求选项 (超时和取消信号)
  * @returns llms.txt 的内容,如果不存在或获取失败则返回 null
  */
-export async function fetchLlmsTxt(baseUrl: string): Promise<LlmsTxtContent | null> {
+export async function fetchLlmsTxt(baseUrl: string, options: RequestOptions = {}): Promise<LlmsTxtContent | null> {
   try {
     // 构建 llms.txt URL
     const urlObj = new URL(baseUrl);
     const llmsTxtUrl = `${urlObj.origin}/llms.txt`;
 
-    const response = await fetch(llmsTxtUrl);
+    const response = await httpFetch(llmsTxtUrl, options);
 
     if (!response.ok) {
       return null;
@@ -56,7 +60,8 @@ export async function fetchLlmsTxt(baseUrl: string): Promise<LlmsTxtContent | nu
     // 解析内容
     return parseLlmsTxt(content);
   } catch (error) {
-    // 静默失败
+    // 静默失败 (任务被取消时除外)
+    options.signal?.throwIfAborted();
     return null;
   }
 }
@@ -187,17 +192,21 @@ function parseLink(text: string): LlmsTxtLink | null {
 
 /**
  * 将 llms.txt 内容转换为 PageLink 数组
+ * 链接会被规范化 (移除 #fragment、跟踪参数和指定的查询参数),指向同一页面的链接只保留第一个
  * @param llmsTxt llms.txt 解析结果
  * @param baseUrl 网站的基础 URL (用于过滤外部链接)
  * @param includeOptional 是否包含 Optional 部分
+ * @param stripParams 额外移除的查询参数
  * @returns PageLink 数组
  */
 export function llmsTxtToPageLinks(
   llmsTxt: LlmsTxtContent,
   baseUrl: string,
-  includeOptional: boolean = false
+  includeOptional: boolean = false,
+  stripParams: string[] = []
 ): PageLink[] {
   const links: PageLink[] = [];
+  const seen = new Set<string>();
   const baseHostname = new URL(baseUrl).hostname;
 
   for (const section of llmsTxt.sections) {
@@ -216,13 +225,23 @@ export function llmsTxtToPageLinks(
           continue;
         }
 
+        // 规范化并去重 (同一页面的不同锚点或写法)
+        const url = canonicalizeUrl(linkUrl.href, stripParams);
+        const key = url && (pageKey(url) ?? url);
+        if (!url || !key || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
         // 检查是否是 .txt 文件 (如 llms-full.txt)
         const isFullContent = linkUrl.pathname.endsWith('.txt');
 
         links.push({
-          url: linkUrl.href,
+          url,
           title: link.title,
-          isFullContent
+          isFullContent,
+          section: section.title || undefined,
+          notes: link.notes || undefined
         });
       } catch (error) {
         // 跳过无效的 URL
@@ -234,6 +253,17 @@ export function llmsTxtToPageLinks(
   return links;
 }
 
+/**
+ * 按 llms.txt 的部分优先级排列页面 (用于 token 预算)
+ * 普通部分按原有顺序在前,Optional 部分在后,完整内容文件 (如 llms-full.txt) 与其他页面重复,放在最后
+ * @param links llmsTxtToPageLinks 生成的页面
+ * @returns 排序后的页面 (同一优先级内保持原有顺序)
+ */
+export function rankLinksBySection(links: PageLink[]): PageLink[] {
+  const priority = (link: PageLink) => link.isFullContent ? 2 : link.section?.toLowerCase() === 'optional' ? 1 : 0;
+  return [...links].sort((a, b) => priority(a) - priority(b));
+}
+
 /**
  * 生成 llms.txt 统计信息（用于显示）
  * @param llmsTxt llms.txt 解析结果
@@ -0,0 +1,191 @@
+// manifest.ts - 增量抓取清单
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * 清单文件名,保存在 <output>/<域名>/ 目录下
+ */
+export const MANIFEST_FILENAME = '.markgrab-manifest.json';
+
+/**
+ * 单个页面的清单记录
+ */
+export interface ManifestEntry {
+  url: string;            // 页面 URL
+  file: string;           // 保存的文件路径 (相对于输出目录)
+  contentUrl: string;     // 实际提供内容的 URL (原生 Markdown 地址或页面本身)
+  etag?: string;          // 响应的 ETag
+  lastModified?: string;  // 响应的 Last-Modified
+  hash: string;           // 内容哈希 (sha256)
+  tokens: number;         // 文件的估算 token 数
+  frontMatter?: boolean;  // 文件是否包含 front matter
+  compact?: boolean;      // 文件是否经过压缩
+  stripImages?: boolean;  // 压缩时是否移除了图片
+  title?: string;         // 页面标题
+  section?: string;       // llms.txt 中所在的部分
+  description?: string;   // 一句话描述 (meta description 或第一段,页面没有时省略),用于生成索引
+  canonicalUrl?: string;  // 页面声明的规范地址 (<link rel="canonical">,与页面 URL 不同时记录)
+  duplicateOf?: string;   // 重复页面保留的页面 URL (文件已删除,检测重复页面时重新抓取会跳过该页面)
+  updatedAt: string;      // 最后一次写入文件的时间 (ISO 8601)
+}
+
+/**
+ * 清单文件结构
+ */
+interface ManifestData {
+  version: 1;
+  entries: Record<string, ManifestEntry>;
+  bundleFiles?: string[];  // 上次生成的合并文件 (相对于输出目录)
+}
+
+/**
+ * 计算内容哈希
+ * @param content 文件内容
+ * @returns sha256 十六进制字符串
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 增量抓取清单
+ * 记录每个页面的缓存校验信息,重新抓取时用于发送条件请求和跳过未变化的页面
+ */
+export class Manifest {
+  private entries: Map<string, ManifestEntry>;
+
+  private constructor(private outputDir: string, entries: ManifestEntry[], private bundles: string[] = []) {
+    this.entries = new Map(entries.map(entry => [entry.url, entry]));
+  }
+
+  /**
+   * 读取输出目录下的清单,不存在或损坏时返回空清单
+   * @param outputDir 输出目录 (<output>/<域名>)
+   */
+  static async load(outputDir: string): Promise<Manifest> {
+    const manifestPath = join(outputDir, MANIFEST_FILENAME);
+
+    if (existsSync(manifestPath)) {
+      try {
+        const data = await Bun.file(manifestPath).json() as ManifestData;
+        return new Manifest(outputDir, Object.values(data.entries ?? {}), data.bundleFiles ?? []);
+      } catch (error) {
+        // 清单损坏时重新开始
+      }
+    }
+
+    return new Manifest(outputDir, []);
+  }
+
+  /**
+   * 获取页面的清单记录
+   * 只有记录的文件仍然存在时才返回,否则需要重新完整抓取
+   */
+  get(url: string): ManifestEntry | undefined {
+    const entry = this.entries.get(url);
+    if (entry && !entry.duplicateOf && existsSync(join(this.outputDir, entry.file))) {
+      return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * 更新页面的清单记录
+   */
+  set(entry: ManifestEntry): void {
+    this.entries.set(entry.url, entry);
+  }
+
+  /**
+   * 将页面标记为重复页面 (保留记录,重新抓取时可以跳过)
+   * @param url 重复页面的 URL
+   * @param duplicateOf 保留的页面 URL
+   */
+  markDuplicate(url: string, duplicateOf: string): void {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.entries.set(url, { ...entry, duplicateOf, updatedAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * 获取重复页面保留的页面 URL
+   * @returns 保留的页面 URL,页面不是重复页面时返回 undefined
+   */
+  duplicateOf(url: string): string | undefined {
+    return this.entries.get(url)?.duplicateOf;
+  }
+
+  /**
+   * 所有页面的清单记录 (不包括重复页面)
+   */
+  all(): ManifestEntry[] {
+    return [...this.entries.values()].filter(entry => !entry.duplicateOf);
+  }
+
+  /**
+   * 所有重复页面的清单记录
+   */
+  duplicates(): ManifestEntry[] {
+    return [...this.entries.values()].filter(entry => entry.duplicateOf);
+  }
+
+  /**
+   * 上次生成的合并文件 (相对于输出目录)
+   */
+  bundleFiles(): string[] {
+    return [...this.bundles];
+  }
+
+  /**
+   * 记录本次生成的合并文件,下次生成前只删除记录的文件
+   * @param files 相对于输出目录的文件路径
+   */
+  setBundleFiles(files: string[]): void {
+    this.bundles = [...files];
+  }
+
+  /**
+   * 将清单写回磁盘
+   */
+  async save(): Promise<void> {
+    await Bun.write(join(this.outputDir, MANIFEST_FILENAME), this.serialize());
+  }
+
+  private serialize(): string {
+    const data: ManifestData = {
+      version: 1,
+      entries: Object.fromEntries(
+        [...this.entries.entries()].sort(([a], [b]) => a.localeCompare(b))
+      ),
+    };
+    if (this.bundles.length > 0) {
+      data.bundleFiles = this.bundles;
+    }
+    return JSON.stringify(data, null, 2) + '\n';
+  }
+}
+
+/**
+ * 根据清单记录生成条件请求头
+ * @param entry 清单记录
+ * @param url 即将请求的 URL,只有与记录的内容 URL 一致时才发送条件请求
+ * @returns 请求头
+ */
+export function conditionalHeaders(entry: ManifestEntry | undefined, url: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (!entry || entry.contentUrl !== url) {
+    return headers;
+  }
+
+  if (entry.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+
+  return headers;
+}
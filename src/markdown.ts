@@ -0,0 +1,410 @@
+// markdown.ts - HTML 转 Markdown (GFM 表格、删除线、任务列表和代码块语言)
+import { load, type CheerioAPI } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import TurndownService from 'turndown';
+
+/**
+ * 不是编程语言的代码块类名 (高亮库和主题添加的类名)
+ */
+const NON_LANGUAGE_CLASSES = new Set([
+  'hljs', 'shiki', 'prism', 'highlight', 'highlighter', 'sourcecode', 'code', 'codehilite',
+  'line-numbers', 'linenums', 'prettyprint', 'nohighlight', 'wrap', 'has-diff', 'has-highlighted',
+  'astro-code', 'github-dark', 'github-light', 'css-variables', 'notranslate'
+]);
+
+/**
+ * 表示"没有语言"的语言名
+ */
+const PLAIN_LANGUAGES = new Set(['none', 'plain', 'plaintext', 'nohighlight', 'text', 'txt']);
+
+/**
+ * 代码块旁边的行号栏 (Prism、highlight.js、Pygments、Hexo、VuePress 等)
+ */
+const GUTTER_SELECTOR = [
+  '.line-numbers-rows',
+  '.line-numbers-wrapper',
+  '.gutter',
+  '.linenos',
+  '.lineno',
+  '.line-number',
+  '.linenumber',
+  '.hljs-ln-numbers',
+  '.react-syntax-highlighter-line-number',
+  '.code-line-number'
+].join(', ');
+
+/**
+ * 明确的复制按钮
+ */
+const COPY_BUTTON_SELECTOR = '.copy-button, .copy-code-button, .copybtn, .code-copy, clipboard-copy';
+
+/**
+ * 代码块工具按钮的名称 (复制、换行等)
+ */
+const CODE_BUTTON = /copy|clipboard|复制|wrap/i;
+
+/**
+ * 在代码块中按行分隔的元素
+ */
+const LINE_ELEMENTS = new Set(['div', 'p', 'tr', 'li']);
+
+/**
+ * 从类名和 data 属性中识别代码语言
+ * 支持 language-*、lang-*、highlight-* (Sphinx)、highlight.js 的 "hljs <语言>" 以及 Shiki 的 data-language
+ * @param className class 属性
+ * @param dataLanguage data-language / data-lang 属性
+ * @returns 语言名 (小写),无法识别时返回 undefined
+ */
+export function detectLanguage(className: string = '', dataLanguage?: string): string | undefined {
+  const normalize = (language: string | undefined): string | undefined => {
+    const result = language?.trim().toLowerCase();
+    return result && !PLAIN_LANGUAGES.has(result) && /^[\w#+.-]+$/.test(result) ? result : undefined;
+  };
+
+  if (dataLanguage) {
+    return normalize(dataLanguage);
+  }
+
+  const classes = className.split(/\s+/).filter(Boolean);
+
+  for (const name of classes) {
+    const match = name.match(/^(?:language|lang|highlight|brush|sourcecode)[-:](.+)$/i);
+    if (match) {
+      return normalize(match[1]);
+    }
+  }
+
+  // highlight.js 旧版本: class="hljs javascript"
+  if (classes.includes('hljs')) {
+    const language = classes.find(name => !NON_LANGUAGE_CLASSES.has(name.toLowerCase()) && !name.includes('-'));
+    return normalize(language);
+  }
+
+  return undefined;
+}
+
+/**
+ * 按 pre 元素、代码元素和外层容器的顺序查找代码语言
+ * (例如 VuePress 的 div.language-js、Sphinx 的 div.highlight-python、Hexo 的 figure.highlight.js)
+ */
+function codeBlockLanguage($: CheerioAPI, pre: AnyNode): string | undefined {
+  const candidates = [
+    ...$(pre).find('code').first().toArray(),
+    pre,
+    ...$(pre).parents().slice(0, 4).toArray()
+  ];
+
+  for (const element of candidates) {
+    const $element = $(element);
+    const language = detectLanguage($element.attr('class'), $element.attr('data-language') ?? $element.attr('data-lang'));
+    if (language) {
+      return language;
+    }
+
+    // Hexo: <figure class="highlight js">
+    const classes = ($element.attr('class') ?? '').split(/\s+/);
+    if (classes[0] === 'highlight' && classes[1] && !NON_LANGUAGE_CLASSES.has(classes[1])) {
+      return detectLanguage('', classes[1]);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 提取代码块的文本,<br> 和按行分隔的元素 (例如 div.line、表格行) 转换为换行
+ * Shiki 的 span.line 之间通常有换行符,压缩后的 HTML 中没有时补充换行
+ */
+function codeText($: CheerioAPI, element: AnyNode): string {
+  let text = '';
+  let lineEnd = -1; // 上一个 span.line 结束的位置
+
+  const walk = (node: AnyNode): void => {
+    if (node.type === 'text') {
+      text += node.data;
+      return;
+    }
+    if (node.type !== 'tag') {
+      return;
+    }
+
+    const name = node.name.toLowerCase();
+    if (name === 'br') {
+      text += '\n';
+      return;
+    }
+
+    if (name === 'span' && $(node).hasClass('line')) {
+      // 紧接着上一行 (中间没有换行符) 时补充换行,空行同样保留
+      if (text && lineEnd === text.length) {
+        text += '\n';
+      }
+      node.children.forEach(walk);
+      lineEnd = text.length;
+      return;
+    }
+
+    const isLine = LINE_ELEMENTS.has(name);
+    if (isLine && text && !text.endsWith('\n')) {
+      text += '\n';
+    }
+    node.children.forEach(walk);
+    if (isLine && !text.endsWith('\n')) {
+      text += '\n';
+    }
+  };
+
+  $(element).contents().toArray().forEach(walk);
+  return text.replace(/\n$/, '');
+}
+
+/**
+ * 整理代码块: 移除行号栏和复制按钮,识别语言,并将每个代码块统一为 <pre><code class="language-*">
+ * @param $ 已加载的 HTML
+ */
+function prepareCodeBlocks($: CheerioAPI): void {
+  // 行号栏 (只处理代码块内部或与代码块相邻的元素)
+  $(GUTTER_SELECTOR).each((_, element) => {
+    const $element = $(element);
+    const inCode = $element.closest('pre, code').length > 0;
+    const besideCode = $element.parent().find('pre').not($element.find('pre')).not($element).length > 0;
+    if (inCode || besideCode) {
+      $element.remove();
+    }
+  });
+
+  // 复制按钮
+  $(COPY_BUTTON_SELECTOR).remove();
+  $('pre').each((_, pre) => {
+    $(pre).find('button').remove();
+    $(pre).parents().slice(0, 3).find('button').each((_, button) => {
+      const $button = $(button);
+      const label = [$button.attr('class'), $button.attr('aria-label'), $button.attr('title'), $button.text()].join(' ');
+      if (CODE_BUTTON.test(label) && $button.find('pre').length === 0) {
+        $button.remove();
+      }
+    });
+  });
+
+  // 移除行号栏后只剩代码的布局表格 (Pygments、Hexo) 替换为其中的代码块
+  // 表格中还有其他内容 (标题、说明文字等) 时保持不变
+  $('table').each((_, table) => {
+    const $table = $(table);
+    const pres = $table.find('pre');
+    const onlyCode = $table.find('td, th').toArray().every(cell => {
+      const $cell = $(cell);
+      return $cell.find('pre').length > 0 || (!$cell.text().trim() && $cell.find('img, svg, video, iframe').length === 0);
+    });
+    if (pres.length > 0 && onlyCode) {
+      // 保留表格上的语言信息
+      const language = codeBlockLanguage($, pres.first()[0]!);
+      if (language) {
+        pres.attr('data-language', language);
+      }
+      $table.replaceWith(pres);
+    }
+  });
+
+  // 统一代码块结构 (从内到外处理,嵌套的 pre 只保留文本)
+  $('pre').toArray().reverse().forEach(pre => {
+    const $pre = $(pre);
+    const language = codeBlockLanguage($, pre);
+    const text = codeText($, pre);
+
+    const $code = $('<code></code>').text(text);
+    if (language) {
+      $code.attr('class', `language-${language}`);
+    }
+    $pre.empty().append($code);
+  });
+}
+
+/**
+ * 选择不会与代码内容冲突的围栏 (比代码中最长的连续反引号多一个)
+ */
+function codeFence(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Turndown 使用的 DOM 元素中本文件用到的部分 (tsconfig 没有包含 DOM 类型)
+ */
+interface DomElement {
+  nodeName: string;
+  parentNode: DomElement | null;
+  nextSibling: DomElement | null;
+  children: ArrayLike<DomElement>;
+  textContent: string | null;
+  outerHTML: string;
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+  querySelector(selectors: string): DomElement | null | undefined;
+  querySelectorAll(selectors: string): ArrayLike<DomElement>;
+  closest(selectors: string): DomElement | null | undefined;
+}
+
+/**
+ * 将 Turndown 传入的节点视为 DOM 元素
+ */
+function element(node: unknown): DomElement {
+  return node as DomElement;
+}
+
+/**
+ * 判断表格是否无法用 GFM 表格表示 (合并单元格、嵌套表格或单元格中的代码块)
+ */
+function isComplexTable(table: DomElement): boolean {
+  return Array.from(table.querySelectorAll('th, td')).some(cell =>
+    Number(cell.getAttribute('colspan') ?? 1) > 1 ||
+    Number(cell.getAttribute('rowspan') ?? 1) > 1 ||
+    Boolean(cell.querySelector('table, pre'))
+  );
+}
+
+/**
+ * 判断表格行是否是表头行 (位于 thead 中,或表格的第一行且全部是 th)
+ */
+function isHeadingRow(row: DomElement): boolean {
+  if (row.parentNode?.nodeName === 'THEAD') {
+    return true;
+  }
+
+  const cells = Array.from(row.children);
+  const firstRow = row.closest('table')?.querySelector('tr');
+  return firstRow === row && cells.length > 0 && cells.every(cell => cell.nodeName === 'TH');
+}
+
+/**
+ * 表头单元格对应的对齐分隔线
+ */
+function alignmentSeparator(cell: DomElement): string {
+  const align = cell.getAttribute('align') ?? cell.getAttribute('style')?.match(/text-align:\s*(\w+)/i)?.[1] ?? '';
+  switch (align.toLowerCase()) {
+    case 'left': return ':---';
+    case 'right': return '---:';
+    case 'center': return ':---:';
+    default: return '---';
+  }
+}
+
+/**
+ * 单元格结束标记 (表格行用它拆分单元格内容)
+ */
+const CELL_END = '\u0000';
+
+/**
+ * 生成表格行
+ */
+function tableRow(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * 创建配置好的 Turndown 实例
+ * ATX 标题、围栏代码块 (带语言)、GFM 表格、删除线和任务列表
+ * @returns Turndown 实例
+ */
+export function createTurndownService(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced'
+  });
+
+  // 代码块 (prepareCodeBlocks 已统一为 <pre><code class="language-*">)
+  service.addRule('fencedCodeBlock', {
+    filter: node => element(node).nodeName === 'PRE',
+    replacement: (content, node) => {
+      const pre = element(node);
+      const code = pre.querySelector('code');
+      const text = (code ?? pre).textContent ?? '';
+      const language = detectLanguage(code?.getAttribute('class') ?? '') ?? '';
+      const fence = codeFence(text);
+      return `\n\n${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}\n\n`;
+    }
+  });
+
+  // 删除线
+  service.addRule('strikethrough', {
+    filter: node => ['DEL', 'S', 'STRIKE'].includes(element(node).nodeName),
+    replacement: content => `~~${content}~~`
+  });
+
+  // 任务列表
+  service.addRule('taskListItem', {
+    filter: node => {
+      const input = element(node);
+      return input.nodeName === 'INPUT' && input.getAttribute('type') === 'checkbox' && input.parentNode?.nodeName === 'LI';
+    },
+    replacement: (content, node) => {
+      const checkbox = element(node).hasAttribute('checked') ? '[x]' : '[ ]';
+      // 后面的文字以空白开头时不再额外添加空格
+      return /^\s/.test(element(node).nextSibling?.textContent ?? '') ? checkbox : `${checkbox} `;
+    }
+  });
+
+  // GFM 表格 (合并单元格等无法表示的表格保留为 HTML)
+  service.addRule('tableCell', {
+    filter: node => ['TH', 'TD'].includes(element(node).nodeName),
+    replacement: content => content.trim().replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|') + CELL_END
+  });
+
+  service.addRule('tableRow', {
+    filter: node => element(node).nodeName === 'TR',
+    replacement: (content, node) => {
+      const row = element(node);
+      const cells = content.split(CELL_END).slice(0, -1).map(cell => cell.trim());
+      let markdown = tableRow(cells);
+      if (isHeadingRow(row)) {
+        markdown += '\n' + tableRow(Array.from(row.children).map(alignmentSeparator));
+      }
+      return `${markdown}\n`;
+    }
+  });
+
+  service.addRule('tableSection', {
+    filter: node => ['THEAD', 'TBODY', 'TFOOT'].includes(element(node).nodeName),
+    replacement: content => content
+  });
+
+  service.addRule('table', {
+    filter: node => element(node).nodeName === 'TABLE',
+    replacement: (content, node) => {
+      const table = element(node);
+      if (isComplexTable(table)) {
+        return `\n\n${table.outerHTML}\n\n`;
+      }
+
+      // GFM 表格必须有表头,没有表头行时添加空表头
+      const firstRow = table.querySelector('tr');
+      let rows = content.trim();
+      if (firstRow && !isHeadingRow(firstRow)) {
+        const columns = firstRow.children.length;
+        rows = `${tableRow(Array(columns).fill(''))}\n${tableRow(Array(columns).fill('---'))}\n${rows}`;
+      }
+      return `\n\n${rows}\n\n`;
+    }
+  });
+
+  // 单元格中的换行保留为 <br>
+  service.addRule('tableLineBreak', {
+    filter: node => element(node).nodeName === 'BR' && Boolean(element(node).closest('th, td')),
+    replacement: () => '<br>'
+  });
+
+  return service;
+}
+
+const turndownService = createTurndownService();
+
+/**
+ * 将 HTML 片段转换为 Markdown
+ * 转换前移除代码块的行号栏和复制按钮,并识别代码语言
+ * @param html HTML 片段
+ * @returns Markdown 内容
+ */
+export function htmlToMarkdown(html: string): string {
+  const $ = load(html, null, false);
+  prepareCodeBlocks($);
+  return turndownService.turndown($.html());
+}
@@ -0,0 +1,27 @@
+// server-config.ts - Per-domain settings the MCP server operator provides
+import { loadConfig, getDomainConfig, type DomainConfig, type TomlConfig } from '../config.ts';
+
+/**
+ * Environment variable naming the TOML config file read by the MCP server
+ */
+export const SERVER_CONFIG_ENV = 'MARKGRAB_CONFIG';
+
+let config: Promise<TomlConfig> | undefined;
+
+/**
+ * Get the operator's per-domain config for a URL.
+ * Settings that make the server read its own secrets or files (token environment variables,
+ * cookies.txt, CA certificates) only come from here, never from tool arguments, so a client
+ * cannot send them to a host it chooses.
+ * @param url Target URL
+ * @returns The domain's config, or undefined if no config file is set or the domain has none
+ */
+export async function serverDomainConfig(url: string): Promise<DomainConfig | undefined> {
+  const configPath = process.env[SERVER_CONFIG_ENV];
+  if (!configPath) {
+    return undefined;
+  }
+
+  config ??= loadConfig(configPath);
+  return getDomainConfig(await config, url);
+}
@@ -5,6 +5,7 @@ import { load } from 'cheerio';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { mkdir } from 'fs/promises';
+import { httpFetch } from '../../http.ts';
 import type {
   AnalyzeHtmlParams,
   AnalyzeHtmlResponse,
@@ -106,7 +107,8 @@ function simplifyHtml(html: string): string {
  * Handler for analyze_html_structure tool
  */
 async function handleAnalyzeHtml(
-  params: AnalyzeHtmlParams
+  params: AnalyzeHtmlParams,
+  signal?: AbortSignal
 ): Promise<AnalyzeHtmlResponse> {
   // Validate URL
   try {
@@ -116,7 +118,7 @@ async function handleAnalyzeHtml(
   }
 
   // Fetch the HTML
-  const response = await fetch(params.url);
+  const response = await httpFetch(params.url, { signal });
   if (!response.ok) {
     throw new Error(`Failed to fetch ${params.url}: ${response.status} ${response.statusText}`);
   }
@@ -203,9 +205,9 @@ Return a JSON object with:
         url: z.string().describe('The URL of the webpage to analyze'),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await handleAnalyzeHtml(args as AnalyzeHtmlParams);
+        const result = await handleAnalyzeHtml(args as AnalyzeHtmlParams, extra.signal);
         return {
           content: [
             {
@@ -11,7 +11,8 @@ import type {
  * Handler for check_llms_txt tool
  */
 async function handleCheckLlmsTxt(
-  params: CheckLlmsTxtParams
+  params: CheckLlmsTxtParams,
+  signal?: AbortSignal
 ): Promise<CheckLlmsTxtResponse> {
   // Validate URL
   try {
@@ -21,7 +22,7 @@ async function handleCheckLlmsTxt(
   }
 
   const includeOptional = params.includeOptional ?? false;
-  const llmsTxt = await fetchLlmsTxt(params.url);
+  const llmsTxt = await fetchLlmsTxt(params.url, { signal });
 
   if (!llmsTxt) {
     return {
@@ -72,9 +73,9 @@ Useful for understanding a site's documentation structure before scraping.`,
         includeOptional: z.boolean().optional().default(false).describe('Include optional sections in the analysis (default: false)'),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await handleCheckLlmsTxt(args as CheckLlmsTxtParams);
+        const result = await handleCheckLlmsTxt(args as CheckLlmsTxtParams, extra.signal);
         return {
           content: [
             {
@@ -11,7 +11,8 @@ import type {
  * Handler for extract_links tool
  */
 async function handleExtractLinks(
-  params: ExtractLinksParams
+  params: ExtractLinksParams,
+  signal?: AbortSignal
 ): Promise<ExtractLinksResponse> {
   // Validate URL
   try {
@@ -24,7 +25,7 @@ async function handleExtractLinks(
     throw new Error('CSS selector is required');
   }
 
-  const links = await scraperExtractLinks(params.url, params.selector);
+  const links = await scraperExtractLinks(params.url, params.selector, { signal }, params.stripParams);
 
   return {
     links: links.map(link => ({ title: link.title, url: link.url })),
@@ -52,11 +53,12 @@ Returns an array of links with their titles and URLs.`,
       inputSchema: {
         url: z.string().describe('The URL of the page to extract links from'),
         selector: z.string().describe('CSS selector to match links. Examples: "nav a", "a[href^=\\"/docs/\\"]", ".sidebar a"'),
+        stripParams: z.array(z.string()).optional().describe('Query parameters to remove from the extracted URLs, e.g. ["tab"]; tracking parameters (utm_*, fbclid, ...) are always removed and duplicates are merged'),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await handleExtractLinks(args as ExtractLinksParams);
+        const result = await handleExtractLinks(args as ExtractLinksParams, extra.signal);
         return {
           content: [
             {
@@ -1,18 +1,114 @@
 // preview-scrape.ts - Preview Scrape Tool
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { extractLinks as scraperExtractLinks, extractDomain } from '../../scraper.ts';
+import { extractDomain, tryFetchNativeMarkdown, type PageLink } from '../../scraper.ts';
+import { planOutputFiles } from '../../layout.ts';
+import { crawlLinks } from '../../crawler.ts';
 import { fetchLlmsTxt, llmsTxtToPageLinks } from '../../llms-txt.ts';
+import { fetchSitemapLinks } from '../../sitemap.ts';
+import { RequestAuth } from '../../auth.ts';
+import { detectPreset, getPreset, AUTO_PRESET, PRESET_NAMES } from '../../presets.ts';
+import { httpFetch } from '../../http.ts';
+import { extractContent, type ContentOptions } from '../../content.ts';
+import { htmlToMarkdown } from '../../markdown.ts';
+import { estimateTokens } from '../../tokens.ts';
+import { detectVersions, selectVersion, guessVersion, isInVersion, versionDirName } from '../../versions.ts';
+import type { RequestOptions } from '../../request.ts';
+import { serverDomainConfig } from '../server-config.ts';
 import type {
+  PageSource,
   PreviewScrapeParams,
   PreviewScrapeResponse,
 } from '../types.ts';
 
+/**
+ * Number of pages fetched to estimate the token count of a scrape
+ */
+const TOKEN_SAMPLE_SIZE = 3;
+
+/**
+ * Fetch a page the way the scraper would and estimate its Markdown token count
+ * @returns Token estimate, or null if the page could not be fetched or has no content
+ */
+async function samplePageTokens(
+  url: string,
+  contentAreaSelector: string,
+  contentOptions: ContentOptions,
+  requestOptions: RequestOptions
+): Promise<number | null> {
+  try {
+    const markdown = await tryFetchNativeMarkdown(url, requestOptions);
+    if (markdown) {
+      return estimateTokens(markdown);
+    }
+
+    const response = await httpFetch(url, requestOptions);
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+    const extracted = extractContent(await response.text(), contentAreaSelector, contentOptions);
+    return extracted ? estimateTokens(htmlToMarkdown(extracted.html)) : null;
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    return null;
+  }
+}
+
+/**
+ * Fetch the entry page HTML once; version and framework detection both read it
+ * @returns Page HTML, or an empty string if the page could not be fetched
+ */
+async function fetchEntryHtml(url: string, requestOptions: RequestOptions): Promise<string> {
+  try {
+    const response = await httpFetch(url, requestOptions);
+    if (response.ok) {
+      return await response.text();
+    }
+    await response.body?.cancel();
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+  }
+  return '';
+}
+
+/**
+ * Estimate the total token count by sampling pages spread evenly across the list
+ */
+async function estimateTokensBySampling(
+  pages: PageLink[],
+  contentAreaSelector: string,
+  contentOptions: ContentOptions,
+  requestOptions: RequestOptions
+): Promise<PreviewScrapeResponse['estimatedTokens']> {
+  const count = Math.min(TOKEN_SAMPLE_SIZE, pages.length);
+  const samples = Array.from({ length: count }, (_, index) => pages[Math.floor(index * pages.length / count)]!);
+
+  const tokens: number[] = [];
+  for (const page of samples) {
+    const pageTokens = await samplePageTokens(page.url, contentAreaSelector, contentOptions, requestOptions);
+    if (pageTokens !== null) {
+      tokens.push(pageTokens);
+    }
+  }
+  if (tokens.length === 0) {
+    return undefined;
+  }
+
+  const perPage = Math.round(tokens.reduce((sum, value) => sum + value, 0) / tokens.length);
+  return {
+    total: perPage * pages.length,
+    perPage,
+    sampledPages: tokens.length,
+  };
+}
+
 /**
  * Handler for preview_scrape tool
  */
 async function handlePreviewScrape(
-  params: PreviewScrapeParams
+  params: PreviewScrapeParams,
+  signal?: AbortSignal
 ): Promise<PreviewScrapeResponse> {
   // Validate URL
   try {
@@ -21,46 +117,140 @@ async function handlePreviewScrape(
     throw new Error(`Invalid URL: ${params.url}`);
   }
 
-  const contentAreaSelector = params.contentAreaSelector || 'body';
   const useLlmsTxt = params.useLlmsTxt ?? true;
   const includeOptional = params.includeOptional ?? false;
+  const useSitemap = params.useSitemap ?? true;
+  const maxPages = params.maxPages ?? 500;
+  const timeout = params.timeout !== undefined ? params.timeout * 1000 : undefined;
+  // Token environment variables, cookies.txt and CA certificates come only from the server's config
+  const serverConfig = await serverDomainConfig(params.url);
+  const auth = RequestAuth.load(params.url, {
+    headers: { ...serverConfig?.headers, ...params.headers },
+    bearerTokenEnv: serverConfig?.bearerTokenEnv,
+    basicAuthEnv: serverConfig?.basicAuthEnv,
+    basicAuth: params.basicAuth ?? serverConfig?.basicAuth,
+    cookiesFile: serverConfig?.cookiesFile,
+  });
+  const requestOptions: RequestOptions = {
+    signal,
+    timeout,
+    auth,
+    proxy: params.proxy ?? serverConfig?.proxy,
+    caFile: serverConfig?.caFile,
+    userAgent: serverConfig?.userAgent,
+  };
+
+  // Detect the documentation versions; with docVersion, preview only that version
+  const entryHtml = await fetchEntryHtml(params.url, requestOptions);
+  const versions = detectVersions(entryHtml, params.url);
+  const version = params.docVersion
+    ? selectVersion(versions, params.docVersion) ?? guessVersion(params.url, params.docVersion)
+    : undefined;
+  if (params.docVersion && !version) {
+    const available = versions.map(candidate => candidate.name).join(', ');
+    throw new Error(available
+      ? `Documentation version not found: ${params.docVersion} (available: ${available})`
+      : `No documentation versions detected (no version in the URL and no version switcher): ${params.docVersion}`);
+  }
+  const url = version && !isInVersion(params.url, version) ? version.url : params.url;
 
-  let pages: Array<{ title: string; url: string }> = [];
+  // Detect the documentation framework from the same page (or the selected version's entry page);
+  // an explicit preset overrides the detection
+  const detected = detectPreset(url === params.url ? entryHtml : await fetchEntryHtml(url, requestOptions));
+  const preset = params.preset === AUTO_PRESET ? detected : params.preset ? getPreset(params.preset) : undefined;
+  const contentAreaSelector = params.contentAreaSelector || preset?.contentAreaSelector || 'body';
+  const presetFollowSelector = params.mode === 'single' ? undefined : preset?.followLinksSelector;
+  const followLinksSelector = params.followLinksSelector || presetFollowSelector;
+
+  const layout = params.layout ?? 'flat';
+  let pages: PageLink[] = [];
   let mode: 'auto' | 'follow' | 'single' = params.mode || 'auto';
+  let source: PageSource = 'single';
+  let sitemapUrl: string | undefined;
 
   // Try llms.txt first (if enabled)
   if (useLlmsTxt && mode === 'auto') {
-    const llmsTxt = await fetchLlmsTxt(params.url);
+    const llmsTxt = await fetchLlmsTxt(url, requestOptions);
     if (llmsTxt) {
-      const links = llmsTxtToPageLinks(llmsTxt, params.url, includeOptional);
+      const links = llmsTxtToPageLinks(llmsTxt, url, includeOptional, params.stripParams)
+        .filter(link => !version || isInVersion(link.url, version));
       pages = links.map(link => ({ title: link.title, url: link.url }));
       mode = 'auto';
+      source = 'llms-txt';
+    }
+  }
+
+  // If no llms.txt and followLinksSelector provided (or supplied by the preset), extract links
+  if (pages.length === 0 && followLinksSelector) {
+    const links = await crawlLinks(url, followLinksSelector, {
+      maxDepth: params.maxDepth ?? 1,
+      scope: params.scope ?? version?.scope,
+      exclude: version?.exclude,
+      maxPages,
+      stripParams: params.stripParams,
+      ...requestOptions,
+    });
+    // A preset's navigation selector that matches nothing falls through to sitemap.xml
+    if (links.length > 0 || params.followLinksSelector) {
+      pages = links.map(link => ({ title: link.title, url: link.url }));
+      mode = 'follow';
+      source = 'follow';
     }
   }
 
-  // If no llms.txt and followLinksSelector provided, extract links
-  if (pages.length === 0 && params.followLinksSelector) {
-    const links = await scraperExtractLinks(params.url, params.followLinksSelector);
-    pages = links.map(link => ({ title: link.title, url: link.url }));
-    mode = 'follow';
+  // Fall back to sitemap.xml in auto mode
+  if (pages.length === 0 && useSitemap && mode === 'auto') {
+    const sitemap = await fetchSitemapLinks(url, {
+      maxPages,
+      stripParams: params.stripParams,
+      scope: version?.scope,
+      exclude: version?.exclude,
+      ...requestOptions,
+    });
+    if (sitemap) {
+      pages = sitemap.links.map(link => ({ title: link.title, url: link.url }));
+      sitemapUrl = sitemap.sitemapUrl;
+      source = 'sitemap';
+    }
   }
 
   // If still no pages, single page mode
   if (pages.length === 0) {
-    const urlPath = new URL(params.url).pathname;
+    const urlPath = new URL(url).pathname;
     const title = urlPath.split('/').filter(Boolean).pop() || 'index';
-    pages = [{ title, url: params.url }];
+    pages = [{ title, url }];
     mode = 'single';
+    source = 'single';
   }
 
+  const estimatedTokens = params.estimateTokens
+    ? await estimateTokensBySampling(pages, contentAreaSelector, { excludeSelectors: preset?.excludeSelectors }, requestOptions)
+    : undefined;
+
   return {
     totalPages: pages.length,
-    pages,
+    source,
+    sitemapUrl,
+    detectedFramework: detected?.name,
+    versions: versions.length > 0
+      ? versions.map(candidate => ({ name: candidate.name, url: candidate.url, current: candidate.current }))
+      : undefined,
+    selectedVersion: version?.name,
+    estimatedTokens,
+    pages: planOutputFiles(pages, layout).links.map(link => ({
+      title: link.title,
+      url: link.url,
+      file: link.file!,
+    })),
     config: {
+      preset: preset?.name,
       contentSelector: contentAreaSelector,
-      outputDir: './' + extractDomain(params.url),
+      followSelector: source === 'follow' ? followLinksSelector : undefined,
+      excludeSelectors: preset?.excludeSelectors,
+      outputDir: './' + extractDomain(url) + (version ? `/${versionDirName(version)}` : ''),
       nativeMd: true,
       mode,
+      layout,
     },
   };
 }
@@ -77,23 +267,38 @@ export function registerPreviewScrapeTool(server: McpServer) {
 
 This is a dry-run mode that helps you:
 - Verify the correct pages will be scraped
-- Check if llms.txt is detected
+- Check if llms.txt or sitemap.xml is detected
 - Validate CSS selectors before actual scraping
-- Estimate the scope of a scraping operation
+- Detect the documentation framework (reported as "detectedFramework") to pick a preset
+- List the documentation versions found in the URL path or a version switcher ("versions") and preview a single one with "docVersion"
+- Estimate the scope of a scraping operation, optionally with a token estimate ("estimatedTokens") from a few sampled pages
 
 Returns a list of all pages that would be scraped along with configuration details.`,
       inputSchema: {
         url: z.string().describe('The URL to preview scraping for'),
         mode: z.enum(['auto', 'follow', 'single']).optional().default('auto').describe('Scraping mode (default: "auto")'),
         followLinksSelector: z.string().optional().describe('CSS selector to find links (for "follow" mode)'),
-        contentAreaSelector: z.string().optional().default('body').describe('CSS selector for content area (default: "body")'),
+        contentAreaSelector: z.string().optional().describe('CSS selector for content area, or "auto" to detect the main content (default: the preset\'s selector, otherwise "body")'),
+        preset: z.enum(PRESET_NAMES as [string, ...string[]]).optional().describe(`Documentation framework preset ("auto" uses the detected framework). One of: ${PRESET_NAMES.join(', ')}`),
         useLlmsTxt: z.boolean().optional().default(true).describe('Check for llms.txt (default: true)'),
         includeOptional: z.boolean().optional().default(false).describe('Include optional sections from llms.txt (default: false)'),
+        maxDepth: z.number().int().min(1).optional().default(1).describe('Maximum link depth when following links (default: 1)'),
+        scope: z.string().optional().describe('Only follow links starting with this URL prefix (default: same origin as url when maxDepth > 1)'),
+        maxPages: z.number().int().min(1).optional().default(500).describe('Maximum number of pages to collect when following links or reading sitemap.xml (default: 500)'),
+        useSitemap: z.boolean().optional().default(true).describe('In "auto" mode, fall back to sitemap.xml when no llms.txt is found (default: true)'),
+        layout: z.enum(['flat', 'path']).optional().default('flat').describe('Output layout used to compute each page\'s file path (default: "flat")'),
+        stripParams: z.array(z.string()).optional().describe('Query parameters to remove from discovered URLs before they are listed, e.g. ["tab"]; tracking parameters (utm_*, fbclid, ...) are always removed'),
+        docVersion: z.string().optional().describe('Only preview this documentation version, e.g. "v3", "5.0" or "latest" (see "versions" in the response for the versions that were found)'),
+        estimateTokens: z.boolean().optional().default(false).describe(`Fetch up to ${TOKEN_SAMPLE_SIZE} sample pages to estimate the total token count (default: false)`),
+        timeout: z.number().positive().optional().describe('Timeout in seconds for each HTTP request (default: 30)'),
+        headers: z.record(z.string(), z.string()).optional().describe('Extra HTTP headers sent to the site, e.g. {"X-Api-Key": "..."}'),
+        basicAuth: z.string().optional().describe('HTTP basic auth credentials as "user:password"'),
+        proxy: z.string().optional().describe('Proxy URL, e.g. "http://proxy.corp:8080" (default: HTTPS_PROXY / HTTP_PROXY environment variables, honoring NO_PROXY)'),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await handlePreviewScrape(args as PreviewScrapeParams);
+        const result = await handlePreviewScrape(args as PreviewScrapeParams, extra.signal);
         return {
           content: [
             {
@@ -1,9 +1,9 @@
 // scrape-documentation.ts - Scrape Documentation Tool
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { scrape, extractDomain } from '../../scraper.ts';
-import { readdirSync } from 'fs';
-import { join } from 'path';
+import { scrape } from '../../scraper.ts';
+import { PRESET_NAMES } from '../../presets.ts';
+import { serverDomainConfig } from '../server-config.ts';
 import type {
   ScrapeDocumentationParams,
   ScrapeDocumentationResponse,
@@ -13,7 +13,8 @@ import type {
  * Handler for scrape_documentation tool
  */
 async function handleScrapeDocumentation(
-  params: ScrapeDocumentationParams
+  params: ScrapeDocumentationParams,
+  signal?: AbortSignal
 ): Promise<ScrapeDocumentationResponse> {
   const startTime = Date.now();
 
@@ -25,25 +26,35 @@ async function handleScrapeDocumentation(
   }
 
   // Determine mode
-  let followLinksSelector = params.followLinksSelector || '';
+  // Without an explicit selector the preset's navigation selector (if any) is used
+  let followLinksSelector = params.followLinksSelector || undefined;
   let useLlmsTxt = params.useLlmsTxt ?? true;
+  let useSitemap = params.useSitemap ?? true;
 
   if (params.mode === 'single') {
     followLinksSelector = '';
     useLlmsTxt = false;
+    useSitemap = false;
   } else if (params.mode === 'follow') {
     useLlmsTxt = false;
+    useSitemap = false;
     if (!params.followLinksSelector) {
       throw new Error('followLinksSelector is required when mode is "follow"');
     }
   }
   // mode === 'auto' uses default behavior
 
+  // Token environment variables, cookies.txt and CA certificates come only from the server's config
+  const serverConfig = await serverDomainConfig(params.url);
+
   // Prepare scraper options
   const scraperOptions = {
     baseUrl: params.url,
     followLinksSelector,
-    contentAreaSelector: params.contentAreaSelector || 'body',
+    contentAreaSelector: params.contentAreaSelector || undefined,
+    excludeSelectors: params.excludeSelectors,
+    cleanBoilerplate: params.cleanBoilerplate ?? true,
+    preset: params.preset,
     outputDir: params.outputDir || './',
     useNativeMd: params.useNativeMd ?? true,
     useLlmsTxt,
@@ -51,50 +62,103 @@ async function handleScrapeDocumentation(
     dryRun: params.dryRun ?? false,
     maxRetries: params.maxRetries ?? 3,
     maxConcurrent: params.maxConcurrent ?? 10,
+    maxDepth: params.maxDepth ?? 1,
+    scope: params.scope,
+    maxPages: params.maxPages ?? 500,
+    useSitemap,
+    resume: params.resume ?? false,
+    ignoreRobotsTxt: params.ignoreRobotsTxt ?? false,
+    rateLimit: params.rateLimit,
+    timeout: params.timeout !== undefined ? params.timeout * 1000 : undefined,
+    deadline: params.deadline !== undefined ? params.deadline * 1000 : undefined,
+    signal,
+    auth: {
+      headers: { ...serverConfig?.headers, ...params.headers },
+      bearerTokenEnv: serverConfig?.bearerTokenEnv,
+      basicAuthEnv: serverConfig?.basicAuthEnv,
+      basicAuth: params.basicAuth ?? serverConfig?.basicAuth,
+      cookiesFile: serverConfig?.cookiesFile,
+    },
+    proxy: params.proxy ?? serverConfig?.proxy,
+    caFile: serverConfig?.caFile,
+    userAgent: serverConfig?.userAgent,
+    layout: params.layout ?? 'flat',
+    rewriteLinks: params.rewriteLinks ?? true,
+    generateIndex: params.generateIndex ?? true,
+    downloadAssets: params.downloadAssets ?? false,
+    assetExtensions: params.assetExtensions,
+    maxAssetSize: params.maxAssetSize !== undefined ? Math.round(params.maxAssetSize * 1024 * 1024) : undefined,
+    frontMatter: params.frontMatter ?? false,
+    compact: params.compact ?? false,
+    stripImages: params.stripImages ?? false,
+    bundle: params.bundle ?? false,
+    bundleMaxSize: params.bundleMaxSize !== undefined ? Math.round(params.bundleMaxSize * 1024) : undefined,
+    bundleMaxTokens: params.bundleMaxTokens,
+    chunks: params.chunks ?? false,
+    chunkSize: params.chunkSize,
+    maxTokens: params.maxTokens,
+    stripParams: params.stripParams,
+    dedupe: params.dedupe ?? false,
+    dedupeThreshold: params.dedupeThreshold,
+    docVersion: params.docVersion,
   };
 
-  // Create a custom progress tracker to capture stats
   let stats = {
     total: 0,
     successful: 0,
+    skipped: 0,
     failed: 0,
+    retries: 0,
     duration: '0s',
   };
-  let errors: Array<{ url: string; error: string }> = [];
 
   try {
     // Run the scraper
-    await scrape(scraperOptions);
+    const result = await scrape(scraperOptions);
 
     // Calculate duration
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     stats.duration = `${duration}s`;
 
-    // Get the output directory
-    const domain = extractDomain(params.url);
-    const fullOutputDir = `${scraperOptions.outputDir}/${domain}`;
-
-    // List files created
-    let files: string[] = [];
-    let filesCreated = 0;
-    try {
-      const dirContents = readdirSync(fullOutputDir);
-      files = dirContents
-        .filter(f => f.endsWith('.md'))
-        .map(f => join(fullOutputDir, f));
-      filesCreated = files.length;
-      stats.total = filesCreated;
-      stats.successful = filesCreated;
-    } catch (error) {
-      // Directory might not exist if scraping failed
-    }
+    // Collect per-page results
+    const saved = result.pages.filter(page => page.status === 'saved');
+    const unchanged = result.pages.filter(page => page.status === 'unchanged');
+    const blocked = result.pages.filter(page => page.status === 'blocked');
+    const overBudget = result.pages.filter(page => page.status === 'over-budget');
+    const duplicates = result.pages.filter(page => page.status === 'duplicate');
+    const errors = result.pages
+      .filter(page => page.status === 'failed')
+      .map(page => ({ url: page.url, error: page.error ?? 'Unknown error' }));
+
+    stats.total = result.pages.length;
+    stats.successful = saved.length;
+    stats.skipped = unchanged.length + blocked.length + overBudget.length + duplicates.length;
+    stats.failed = errors.length;
+    stats.retries = result.pages.reduce((sum, page) => sum + (page.retries ?? 0), 0);
+
+    // Files written in this run plus unchanged files from previous runs
+    const files = [...saved, ...unchanged]
+      .map(page => page.filePath)
+      .filter((filePath): filePath is string => Boolean(filePath));
+    const fileTokens = Object.fromEntries([...saved, ...unchanged]
+      .filter(page => page.filePath && page.tokens !== undefined)
+      .map(page => [page.filePath!, page.tokens!]));
 
     return {
       success: true,
-      filesCreated,
-      outputDirectory: fullOutputDir,
+      filesCreated: saved.length,
+      outputDirectory: result.outputDir,
+      version: result.version,
       stats,
       files,
+      totalTokens: result.totalTokens,
+      fileTokens,
+      budgetExhausted: result.budgetExhausted,
+      bundleFiles: result.bundleFiles,
+      chunksFile: result.chunksFile,
+      duplicates: result.duplicates?.length
+        ? result.duplicates.map(({ url, duplicateOf, reason, similarity }) => ({ url, duplicateOf, reason, similarity }))
+        : undefined,
       errors: errors.length > 0 ? errors : undefined,
     };
   } catch (error) {
@@ -104,6 +168,7 @@ async function handleScrapeDocumentation(
       success: false,
       filesCreated: 0,
       outputDirectory: scraperOptions.outputDir,
+      totalTokens: 0,
       stats: {
         ...stats,
         duration: `${duration}s`,
@@ -128,15 +193,34 @@ export function registerScrapeDocumentationTool(server: McpServer) {
 
 This tool intelligently scrapes web documentation using multiple strategies:
 - Auto-detects and uses llms.txt if available (recommended)
-- Follows links using CSS selectors for multi-page sites
+- Falls back to sitemap.xml (including sitemap indexes) limited to the URL's path
+- Follows links using CSS selectors for multi-page sites, optionally recursively (breadth-first)
 - Single page scraping for individual documents
 
 Features:
 - Prioritizes native Markdown (.md) files when available
-- Converts HTML to Markdown using Turndown
+- Built-in presets for Docusaurus, MkDocs, Read the Docs, Sphinx, GitBook, VitePress, VuePress and Starlight (auto-detected with preset: "auto")
+- Converts HTML to GitHub Flavored Markdown: tables, strikethrough, task lists and fenced code blocks with detected languages
 - Concurrent scraping with progress tracking
-- Automatic retry on network failures
-- Respects rate limits
+- Internal links are rewritten to relative links between the local Markdown files
+- Writes llms.txt and index.md into the output directory, listing every saved file with a one-line description
+- Optional image/attachment download into assets/, deduplicated by content hash
+- Optional YAML front matter with provenance (source URL, llms.txt section/notes, fetch time, content hash)
+- Optional compact output tuned for LLM context windows: whitespace normalized, data URIs, empty links and tracking parameters removed, same-site URLs shortened, code blocks left byte-for-byte intact
+- Reports an estimated token count per file and in total; "maxTokens" sets a budget that stops the scrape once reached (llms.txt sections are scraped in priority order, Optional last)
+- Optional chunks.jsonl for retrieval pipelines: pages split at heading boundaries (code blocks are never split), each chunk with source URL, heading breadcrumb, chunk index and token estimate
+- Optional bundle: all pages combined into one _bundle.md in the output directory (like llms-full.txt) with a linked table of contents, optionally split by size or token count
+- Automatic retry on network failures and 408/429/5xx responses, honoring Retry-After
+- Tracking parameters (utm_*, fbclid, ...) and any "stripParams" are removed before URLs are queued, and rel="canonical" is honored, so the same page is not fetched twice
+- Optional duplicate removal ("dedupe") after the crawl: pages whose canonical URL is another scraped page, identical content, or near-identical content (MinHash similarity); each is reported with the page that was kept
+- Versioned docs: "docVersion" limits the crawl to one version (detected from version path segments like /v3/ or /5.0/ and version switcher menus) and writes it to <outputDir>/<domain>/<version>/
+- Incremental re-scrapes: unchanged pages are skipped using a manifest and conditional requests
+- Resumable: progress is saved while scraping, so an interrupted job can continue with "resume"
+- Respects robots.txt (Allow/Disallow and Crawl-delay)
+- Optional per-host rate limit; concurrency backs off automatically on 429/503 responses
+- Per-request timeouts and an optional overall deadline; cancelling the tool call stops all in-flight requests
+- Works behind HTTP proxies (HTTPS_PROXY / HTTP_PROXY / NO_PROXY or explicit "proxy") with an optional extra CA certificate from the server config
+- Private docs: custom headers and basic auth; bearer tokens and cookies.txt come from the server's per-domain config file (MARKGRAB_CONFIG). Credentials are never written to the manifest or logs
 
 Use this when you need to:
 - Download entire documentation sites
@@ -146,23 +230,57 @@ Use this when you need to:
       inputSchema: {
         url: z.string().describe('The URL to scrape. Can be a documentation homepage or specific page.'),
         mode: z.enum(['auto', 'follow', 'single']).optional().default('auto').describe(`Scraping mode:
-- "auto" (default): Auto-detect llms.txt, fallback to single page
+- "auto" (default): Auto-detect llms.txt, then sitemap.xml, fallback to single page
 - "follow": Follow links using CSS selector
 - "single": Scrape only the specified URL`),
         followLinksSelector: z.string().optional().describe('CSS selector to find links to follow (required if mode is "follow"). Examples: "nav a", "a[href^=\\"/docs/\\"]", ".sidebar a"'),
-        contentAreaSelector: z.string().optional().default('body').describe('CSS selector for the main content area (default: "body"). Examples: "main", "article", "#content", ".documentation"'),
+        contentAreaSelector: z.string().optional().describe('CSS selector for the main content area (default: the preset\'s selector, otherwise "body"). Examples: "main", "article", "#content", ".documentation". Use "auto" to detect the main content by text and link density; a selector that matches nothing also falls back to "auto" with a warning'),
+        preset: z.enum(PRESET_NAMES as [string, ...string[]]).optional().describe(`Documentation framework preset that supplies default content, follow and exclude selectors. "auto" detects the framework from the meta generator tag, classes and script paths. One of: ${PRESET_NAMES.join(', ')}`),
+        excludeSelectors: z.array(z.string()).optional().describe('CSS selectors of elements to remove before conversion, e.g. ["header", "footer", ".cookie-banner"]'),
+        cleanBoilerplate: z.boolean().optional().default(true).describe('Remove common doc-site chrome before conversion: breadcrumbs, prev/next pagers, feedback widgets, "Edit this page" links and heading permalink anchors (default: true)'),
         outputDir: z.string().optional().default('./').describe('Output directory for scraped files (default: "./"). Files will be saved to <outputDir>/<domain>/'),
+        layout: z.enum(['flat', 'path']).optional().default('flat').describe('Output layout: "flat" names files by page title in one directory (default), "path" mirrors the URL path, e.g. docs/guides/routing/index.md. Filename collisions get a numeric suffix'),
+        rewriteLinks: z.boolean().optional().default(true).describe('After scraping, rewrite links between scraped pages (including #anchors) into relative links to the local .md files; links to pages that were not scraped become absolute (default: true)'),
+        generateIndex: z.boolean().optional().default(true).describe('After scraping, write an llms.txt-compliant index and a human-readable index.md into the output directory, listing every saved file with title, relative path and a one-line description; llms.txt sections are kept when the scrape came from llms.txt (default: true)'),
+        downloadAssets: z.boolean().optional().default(false).describe('Download referenced images into an assets/ folder next to the Markdown and rewrite the references (default: false)'),
+        assetExtensions: z.array(z.string()).optional().describe('With downloadAssets, also download linked files with these extensions, e.g. ["pdf", "zip"]'),
+        maxAssetSize: z.number().positive().optional().describe('Maximum size of a single downloaded asset in MB (default: 10)'),
+        frontMatter: z.boolean().optional().default(false).describe('Start every file with YAML front matter: source_url, title, llms_section/llms_notes (from llms.txt), fetched_at, content_hash and source ("native", "html" or "full-content") (default: false)'),
+        compact: z.boolean().optional().default(false).describe('Compact every page to save tokens: collapse blank lines and repeated spaces, drop data-URI images, empty links and tracking parameters (utm_*, fbclid, ...), turn links whose text is the URL into autolinks and shorten same-site absolute URLs to root-relative paths. Code blocks and inline code are left byte-for-byte intact (default: false)'),
+        stripImages: z.boolean().optional().default(false).describe('Compact output and also remove every image (implies compact) (default: false)'),
+        bundle: z.boolean().optional().default(false).describe('After scraping, also combine all pages into <outputDir>/<domain>/_bundle.md in llms.txt/navigation order, with a linked table of contents, headings nested under each page title and a source URL per page (default: false)'),
+        bundleMaxSize: z.number().positive().optional().describe('With bundle, split into _bundle-1.md, _bundle-2.md, ... so that each file stays under this size in KB'),
+        bundleMaxTokens: z.number().int().positive().optional().describe('With bundle, split so that each file stays under this many tokens (estimated)'),
+        chunks: z.boolean().optional().default(false).describe('After scraping, also write <outputDir>/<domain>/chunks.jsonl: every page split at heading boundaries up to chunkSize tokens, never inside a fenced code block. Each line has id, url, file, title, breadcrumb, chunkIndex, tokens and content (default: false)'),
+        chunkSize: z.number().int().positive().optional().describe('With chunks, the target chunk size in tokens (estimated, default: 512)'),
+        maxTokens: z.number().int().positive().optional().describe('Token budget: stop scraping once the saved files reach this many (estimated) tokens. With llms.txt, pages are scraped in section order with the Optional section last, so the lowest-priority pages are the ones left out'),
+        stripParams: z.array(z.string()).optional().describe('Query parameters to remove from every discovered URL before queueing, e.g. ["tab", "lang"]; "*" matches any characters ("utm_*"). Tracking parameters (utm_*, fbclid, gclid, ...) are always removed'),
+        dedupe: z.boolean().optional().default(false).describe('After scraping, delete pages whose rel="canonical" points to another scraped page, pages with identical content and near-duplicates above dedupeThreshold; the first page in llms.txt/navigation order is kept, links to dropped pages are rewritten to it and the manifest remembers dropped pages so re-scrapes skip them (default: false)'),
+        dedupeThreshold: z.number().positive().max(1).optional().describe('With dedupe, the estimated content similarity (0-1) at which two pages count as duplicates (default: 0.9)'),
+        docVersion: z.string().optional().describe('Only scrape one version of versioned docs, e.g. "v3", "5.0" or "latest" (alias latest/stable, otherwise the highest version number). Versions are detected from path segments and version switcher menus; use preview_scrape to list them. Output goes to <outputDir>/<domain>/<version>/'),
         useNativeMd: z.boolean().optional().default(true).describe('Try to fetch native Markdown (.md) files before converting HTML (default: true)'),
         useLlmsTxt: z.boolean().optional().default(true).describe('Auto-detect and use llms.txt for structured scraping (default: true)'),
         includeOptional: z.boolean().optional().default(false).describe('Include "Optional" sections from llms.txt (default: false)'),
+        useSitemap: z.boolean().optional().default(true).describe('In "auto" mode, fall back to sitemap.xml when no llms.txt is found (default: true)'),
+        resume: z.boolean().optional().default(false).describe('Continue an interrupted scrape from the state saved in the output directory, retrying failed pages (default: false)'),
+        ignoreRobotsTxt: z.boolean().optional().default(false).describe('Ignore robots.txt rules. Only use this for sites you own or are allowed to crawl (default: false)'),
+        rateLimit: z.number().positive().optional().describe('Maximum requests per second per host, e.g. 2 or 0.5 (default: unlimited)'),
+        timeout: z.number().positive().optional().describe('Timeout in seconds for each HTTP request (default: 30). Timed-out requests are retried'),
+        deadline: z.number().positive().optional().describe('Overall time limit in seconds for the whole scrape; progress is saved so it can be resumed (default: none)'),
+        headers: z.record(z.string(), z.string()).optional().describe('Extra HTTP headers sent to the site, e.g. {"X-Api-Key": "..."}'),
+        basicAuth: z.string().optional().describe('HTTP basic auth credentials as "user:password"'),
+        proxy: z.string().optional().describe('Proxy URL, e.g. "http://proxy.corp:8080" (default: HTTPS_PROXY / HTTP_PROXY environment variables, honoring NO_PROXY)'),
         maxConcurrent: z.number().optional().default(10).describe('Maximum concurrent requests (default: 10)'),
         maxRetries: z.number().optional().default(3).describe('Maximum retry attempts for failed requests (default: 3)'),
         dryRun: z.boolean().optional().default(false).describe('Preview mode: show what would be scraped without actually scraping (default: false)'),
+        maxDepth: z.number().int().min(1).optional().default(1).describe('Maximum link depth in "follow" mode (default: 1 = only links found on the entry page). Higher values also follow links found on linked pages'),
+        scope: z.string().optional().describe('Only follow links starting with this URL prefix (default: same origin as url when maxDepth > 1). Example: "https://bun.com/docs/"'),
+        maxPages: z.number().int().min(1).optional().default(500).describe('Maximum number of pages to collect in "follow" mode (default: 500)'),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await handleScrapeDocumentation(args as ScrapeDocumentationParams);
+        const result = await handleScrapeDocumentation(args as ScrapeDocumentationParams, extra.signal);
         return {
           content: [
             {
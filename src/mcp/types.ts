@@ -1,4 +1,5 @@
 // types.ts - MCP parameter and response types
+import type { OutputLayout } from '../layout.ts';
 
 /**
  * Scraping mode
@@ -13,6 +14,9 @@ export interface ScrapeDocumentationParams {
   mode?: ScrapeMode;
   followLinksSelector?: string;
   contentAreaSelector?: string;
+  excludeSelectors?: string[];
+  cleanBoilerplate?: boolean;
+  preset?: string;
   outputDir?: string;
   useNativeMd?: boolean;
   useLlmsTxt?: boolean;
@@ -20,6 +24,37 @@ export interface ScrapeDocumentationParams {
   maxConcurrent?: number;
   maxRetries?: number;
   dryRun?: boolean;
+  maxDepth?: number;
+  scope?: string;
+  maxPages?: number;
+  useSitemap?: boolean;
+  resume?: boolean;
+  ignoreRobotsTxt?: boolean;
+  rateLimit?: number;
+  timeout?: number;   // seconds per request
+  deadline?: number;  // seconds for the whole job
+  headers?: Record<string, string>;
+  basicAuth?: string;
+  proxy?: string;
+  layout?: OutputLayout;
+  rewriteLinks?: boolean;
+  generateIndex?: boolean;
+  downloadAssets?: boolean;
+  assetExtensions?: string[];
+  maxAssetSize?: number;  // MB
+  frontMatter?: boolean;
+  compact?: boolean;
+  stripImages?: boolean;
+  bundle?: boolean;
+  bundleMaxSize?: number;  // KB
+  bundleMaxTokens?: number;
+  chunks?: boolean;
+  chunkSize?: number;  // tokens
+  maxTokens?: number;
+  stripParams?: string[];
+  dedupe?: boolean;
+  dedupeThreshold?: number;  // 0-1
+  docVersion?: string;       // version name or "latest"
 }
 
 /**
@@ -29,13 +64,22 @@ export interface ScrapeDocumentationResponse {
   success: boolean;
   filesCreated: number;
   outputDirectory: string;
+  version?: string;                     // Documentation version that was scraped (with docVersion)
   stats: {
     total: number;
     successful: number;
+    skipped: number;
     failed: number;
+    retries: number;
     duration: string;
   };
   files?: string[];
+  totalTokens: number;                  // Estimated tokens across all files in "files"
+  fileTokens?: Record<string, number>;  // Estimated tokens per file
+  budgetExhausted?: boolean;            // Scraping stopped because maxTokens was reached
+  bundleFiles?: string[];
+  chunksFile?: string;
+  duplicates?: Array<{ url: string; duplicateOf: string; reason: 'canonical' | 'identical' | 'similar'; similarity?: number }>;
   errors?: Array<{ url: string; error: string }>;
 }
 
@@ -47,24 +91,61 @@ export interface PreviewScrapeParams {
   mode?: ScrapeMode;
   followLinksSelector?: string;
   contentAreaSelector?: string;
+  preset?: string;
   useLlmsTxt?: boolean;
   includeOptional?: boolean;
+  maxDepth?: number;
+  scope?: string;
+  maxPages?: number;
+  useSitemap?: boolean;
+  timeout?: number;   // seconds per request
+  headers?: Record<string, string>;
+  basicAuth?: string;
+  proxy?: string;
+  layout?: OutputLayout;
+  stripParams?: string[];
+  docVersion?: string;        // version name or "latest"
+  estimateTokens?: boolean;   // sample a few pages to estimate the token count (default: false)
 }
 
+/**
+ * Where the page list of a preview came from
+ */
+export type PageSource = "llms-txt" | "follow" | "sitemap" | "single";
+
 /**
  * Response from preview_scrape tool
  */
 export interface PreviewScrapeResponse {
   totalPages: number;
+  source: PageSource;
+  sitemapUrl?: string;
+  detectedFramework?: string;   // documentation framework detected from the page (e.g. "docusaurus")
+  versions?: Array<{
+    name: string;           // version name (e.g. "v3", "5.0", "stable")
+    url: string;            // entry URL of the version
+    current: boolean;       // whether the previewed URL belongs to this version
+  }>;
+  selectedVersion?: string;     // version previewed (with docVersion)
+  estimatedTokens?: {
+    total: number;          // estimated tokens for all pages (perPage × totalPages)
+    perPage: number;        // average tokens of the sampled pages
+    sampledPages: number;   // number of pages fetched for the estimate
+  };
   pages: Array<{
     title: string;
     url: string;
+    file: string;   // output path relative to the domain directory
   }>;
   config: {
+    preset?: string;
     contentSelector: string;
+    followSelector?: string;
+    excludeSelectors?: string[];
     outputDir: string;
     nativeMd: boolean;
     mode: ScrapeMode;
+    layout: OutputLayout;
   };
 }
 
@@ -74,6 +155,7 @@ export interface PreviewScrapeResponse {
 export interface ExtractLinksParams {
   url: string;
   selector: string;
+  stripParams?: string[];
 }
 
 /**
@@ -0,0 +1,243 @@
+// output-index.ts - 为输出目录生成 llms.txt 和 index.md 索引
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { PageLink } from './scraper';
+import type { ManifestEntry } from './manifest';
+import { splitFrontMatter } from './front-matter';
+import { encodeLinkPath } from './links';
+
+/**
+ * 索引文件名,保存在 <output>/<域名>/ 目录下
+ */
+export const LLMS_TXT_FILENAME = 'llms.txt';
+export const INDEX_FILENAME = 'index.md';
+
+/**
+ * index.md 被抓取的页面占用时 (例如 path 布局的首页) 使用的文件名
+ */
+const FALLBACK_INDEX_FILENAME = '_index.md';
+
+/**
+ * 没有 llms.txt 部分信息的页面所在的部分
+ */
+const DEFAULT_SECTION = 'Docs';
+
+/**
+ * 本次抓取之前保存、不在本次页面列表中的文件所在的部分
+ */
+const OTHER_SECTION = 'Other';
+
+/**
+ * 描述的最大长度 (字符)
+ */
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * 站点信息 (索引的标题和简介)
+ */
+export interface SiteInfo {
+  title: string;         // 站点名称 (llms.txt 的标题或域名)
+  description?: string;  // 站点简介 (llms.txt 的 blockquote)
+  baseUrl: string;       // 入口 URL
+}
+
+/**
+ * 索引中的一个文件
+ */
+interface IndexEntry {
+  title: string;
+  file: string;          // 相对于输出目录的路径
+  description?: string;
+}
+
+/**
+ * 将描述压缩为一行,过长时截断
+ */
+function oneLine(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_DESCRIPTION_LENGTH
+    ? `${line.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : line;
+}
+
+/**
+ * 提取 Markdown 的第一段文字作为描述
+ * 跳过 front matter、标题、代码块、列表、表格、引用、HTML 和只有图片或链接的段落,并移除链接和强调等标记
+ * @param markdown Markdown 内容
+ * @returns 一行描述,没有段落时返回 undefined
+ */
+export function firstParagraph(markdown: string): string | undefined {
+  const { body } = splitFrontMatter(markdown);
+  let fence: string | null = null;
+  let paragraph: string[] = [];
+
+  for (const line of [...body.split('\n'), '']) {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      paragraph = [];
+      continue;
+    }
+    if (fence) {
+      continue;
+    }
+
+    if (line.trim() && !/^\s*([#>|<]|[-*+]\s|\d+[.)]\s|={3,}|-{3,})/.test(line)) {
+      paragraph.push(line);
+      continue;
+    }
+
+    // 只有链接的段落 (例如导航) 不作为描述
+    const joined = paragraph.join(' ').replace(/!\[[^\]]*\]\([^)]*\)/g, '');
+    const withoutLinks = joined.replace(/\[[^\]]*\]\([^)]*\)/g, '');
+    const text = joined
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[*_`~]/g, '')
+      .trim();
+    if (text && /[\p{L}\p{N}]/u.test(withoutLinks)) {
+      return oneLine(text);
+    }
+    paragraph = [];
+  }
+
+  return undefined;
+}
+
+/**
+ * 收集索引中的文件,按部分分组
+ * 本次抓取的页面按页面列表的顺序 (llms.txt 或导航顺序),之前保存的其他文件按路径排序放在最后
+ */
+function collectSections(
+  links: PageLink[],
+  entries: ManifestEntry[],
+  outputDir: string
+): Map<string, IndexEntry[]> {
+  const byUrl = new Map(entries.map(entry => [entry.url, entry]));
+  const grouped = links.some(link => link.section !== undefined);
+  const sections = new Map<string, IndexEntry[]>();
+  const listed = new Set<string>();
+
+  const add = (section: string, entry: ManifestEntry, title: string | undefined) => {
+    if (listed.has(entry.file) || !existsSync(join(outputDir, entry.file))) {
+      return;
+    }
+    listed.add(entry.file);
+
+    sections.set(section, [...sections.get(section) ?? [], {
+      title: title || entry.title || entry.file.replace(/\.md$/, ''),
+      file: entry.file,
+      description: entry.description
+    }]);
+  };
+
+  for (const link of links) {
+    const entry = byUrl.get(link.url);
+    if (entry) {
+      add(link.section ?? entry.section ?? DEFAULT_SECTION, entry, link.title);
+    }
+  }
+
+  const others = entries
+    .filter(entry => !listed.has(entry.file))
+    .sort((a, b) => a.file.localeCompare(b.file));
+  for (const entry of others) {
+    add(entry.section ?? (grouped ? OTHER_SECTION : DEFAULT_SECTION), entry, entry.title);
+  }
+
+  return sections;
+}
+
+/**
+ * 转义 Markdown 链接文字中的方括号
+ */
+function linkText(text: string): string {
+  return text.replace(/([\[\]])/g, '\\$1');
+}
+
+/**
+ * 转义表格单元格中的竖线
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * 生成符合 llms.txt 规范的索引
+ */
+function renderLlmsTxt(site: SiteInfo, sections: Map<string, IndexEntry[]>): string {
+  const lines = [
+    `# ${site.title}`,
+    '',
+    `> ${oneLine(site.description ?? `Markdown copy of ${site.baseUrl}`)}`,
+    '',
+    `Scraped from ${site.baseUrl}. Links are relative to this file.`
+  ];
+
+  for (const [section, entries] of sections) {
+    lines.push('', `## ${section}`, '');
+    for (const entry of entries) {
+      const notes = entry.description ? `: ${entry.description}` : '';
+      lines.push(`- [${linkText(entry.title)}](${encodeLinkPath(entry.file)})${notes}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 生成供人阅读的 index.md
+ */
+function renderIndexMd(site: SiteInfo, sections: Map<string, IndexEntry[]>): string {
+  const total = [...sections.values()].reduce((sum, entries) => sum + entries.length, 0);
+  const lines = [`# ${site.title}`, ''];
+  if (site.description) {
+    lines.push(`> ${oneLine(site.description)}`, '');
+  }
+  lines.push(`Source: <${site.baseUrl}> · ${total} ${total === 1 ? 'file' : 'files'}`);
+
+  for (const [section, entries] of sections) {
+    lines.push('', `## ${section}`, '', '| Page | File | Description |', '| --- | --- | --- |');
+    for (const entry of entries) {
+      lines.push(`| [${tableCell(linkText(entry.title))}](${encodeLinkPath(entry.file)}) | \`${tableCell(entry.file)}\` | ${tableCell(entry.description ?? '')} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 为输出目录生成 llms.txt 和 index.md
+ * 列出所有已保存的文件 (包括之前抓取的文件) 的标题、相对路径和一句话描述,
+ * 来自 llms.txt 的抓取保留原有的部分分组
+ * @param links 本次抓取的全部页面 (按 llms.txt 或导航顺序)
+ * @param entries 清单中的所有记录
+ * @param outputDir 输出目录 (<output>/<域名>)
+ * @param site 站点信息
+ * @returns 生成的索引文件路径,没有已保存的文件时返回空数组
+ */
+export async function writeOutputIndex(
+  links: PageLink[],
+  entries: ManifestEntry[],
+  outputDir: string,
+  site: SiteInfo
+): Promise<string[]> {
+  const sections = collectSections(links, entries, outputDir);
+  if (sections.size === 0) {
+    return [];
+  }
+
+  const pageFiles = new Set(entries.map(entry => entry.file.toLowerCase()));
+  const indexName = pageFiles.has(INDEX_FILENAME) ? FALLBACK_INDEX_FILENAME : INDEX_FILENAME;
+
+  const llmsTxtPath = join(outputDir, LLMS_TXT_FILENAME);
+  const indexPath = join(outputDir, indexName);
+  await Bun.write(llmsTxtPath, renderLlmsTxt(site, sections));
+  await Bun.write(indexPath, renderIndexMd(site, sections));
+
+  return [llmsTxtPath, indexPath];
+}
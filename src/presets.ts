@@ -0,0 +1,227 @@
+// presets.ts - 常见文档框架的预设选择器
+import { load, type CheerioAPI } from 'cheerio';
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+
+/**
+ * 文档框架预设
+ */
+export interface Preset {
+  name: string;                 // 预设名 (用于 --preset)
+  title: string;                // 框架名称 (用于显示)
+  contentAreaSelector: string;  // 内容区域选择器
+  followLinksSelector: string;  // 侧边栏导航链接选择器
+  excludeSelectors: string[];   // 内容区域中需要移除的元素
+  fingerprint: {
+    generator?: RegExp;         // <meta name="generator"> 的内容
+    selectors?: string[];       // 框架特有的元素
+    scripts?: RegExp;           // 框架特有的脚本或样式路径
+  };
+}
+
+/**
+ * 自动识别文档框架的预设名
+ */
+export const AUTO_PRESET = 'auto';
+
+/**
+ * 预设列表
+ * 识别时得分相同的预设按列表顺序选择,所以更具体的预设 (例如 Read the Docs) 放在通用的预设 (Sphinx) 前面
+ */
+export const PRESETS: Preset[] = [
+  {
+    name: 'docusaurus',
+    title: 'Docusaurus',
+    contentAreaSelector: '.theme-doc-markdown',
+    followLinksSelector: '.theme-doc-sidebar-menu a.menu__link',
+    excludeSelectors: ['.theme-doc-toc-mobile', '.theme-doc-footer'],
+    fingerprint: {
+      generator: /docusaurus/i,
+      selectors: ['#__docusaurus', '.theme-doc-markdown'],
+      scripts: /\/assets\/js\/runtime~main\./
+    }
+  },
+  {
+    name: 'mkdocs',
+    title: 'MkDocs',
+    contentAreaSelector: 'article.md-content__inner, div[role="main"]',
+    followLinksSelector: '.md-sidebar--primary a.md-nav__link, .bs-sidenav a',
+    excludeSelectors: ['.md-source-file'],
+    fingerprint: {
+      generator: /mkdocs/i,
+      selectors: ['.md-content', '[data-md-component]'],
+      scripts: /assets\/javascripts\/bundle\.[\w]+\.min\.js/
+    }
+  },
+  {
+    name: 'readthedocs',
+    title: 'Read the Docs',
+    contentAreaSelector: '[itemprop="articleBody"], .rst-content .document',
+    followLinksSelector: '.wy-menu-vertical a.reference.internal',
+    excludeSelectors: ['.rst-footer-buttons', '.rst-versions'],
+    fingerprint: {
+      selectors: ['.wy-nav-content', '.wy-menu-vertical'],
+      scripts: /_static\/js\/theme\.js|readthedocs/
+    }
+  },
+  {
+    name: 'sphinx',
+    title: 'Sphinx',
+    contentAreaSelector: 'div.body[role="main"], article[role="main"], div.body',
+    followLinksSelector: '.sphinxsidebar a.reference.internal, .sidebar-tree a.reference.internal, .bd-docs-nav a.reference.internal',
+    excludeSelectors: ['div.related'],
+    fingerprint: {
+      generator: /sphinx/i,
+      selectors: ['.sphinxsidebar', 'div.document'],
+      scripts: /_static\/(documentation_options|doctools|sphinx_highlight)\.js/
+    }
+  },
+  {
+    name: 'gitbook',
+    title: 'GitBook',
+    contentAreaSelector: '.page-inner section.normal, main',
+    followLinksSelector: '.book-summary a, aside a[href^="/"]',
+    excludeSelectors: ['.page-footer'],
+    fingerprint: {
+      generator: /gitbook/i,
+      selectors: ['.book-summary', '.gitbook-root'],
+      scripts: /gitbook/i
+    }
+  },
+  {
+    name: 'vitepress',
+    title: 'VitePress',
+    contentAreaSelector: '.vp-doc',
+    followLinksSelector: '.VPSidebar a',
+    excludeSelectors: ['.VPDocFooter'],
+    fingerprint: {
+      generator: /vitepress/i,
+      selectors: ['#VPContent', '.VPDoc']
+    }
+  },
+  {
+    name: 'vuepress',
+    title: 'VuePress',
+    contentAreaSelector: '.theme-default-content',
+    followLinksSelector: '.sidebar a.sidebar-item, .sidebar-links a',
+    excludeSelectors: ['.page-edit', '.page-nav'],
+    fingerprint: {
+      generator: /vuepress/i,
+      selectors: ['.theme-default-content', '.sidebar-links']
+    }
+  },
+  {
+    name: 'starlight',
+    title: 'Starlight',
+    contentAreaSelector: '.sl-markdown-content',
+    followLinksSelector: '.sidebar-content a',
+    excludeSelectors: ['.pagination-links'],
+    fingerprint: {
+      generator: /starlight/i,
+      selectors: ['.sl-markdown-content', 'starlight-theme-select']
+    }
+  }
+];
+
+/**
+ * --preset 可用的值
+ */
+export const PRESET_NAMES = [AUTO_PRESET, ...PRESETS.map(preset => preset.name)];
+
+/**
+ * 按名称查找预设
+ * @param name 预设名
+ * @returns 预设,不存在时返回 undefined
+ */
+export function getPreset(name: string): Preset | undefined {
+  return PRESETS.find(preset => preset.name === name.toLowerCase());
+}
+
+/**
+ * 计算页面与预设特征的匹配得分
+ * generator 匹配计 2 分,每个匹配的元素或脚本路径计 1 分
+ */
+function fingerprintScore($: CheerioAPI, preset: Preset, generator: string, assets: string[]): number {
+  const { fingerprint } = preset;
+  let score = 0;
+
+  if (fingerprint.generator && fingerprint.generator.test(generator)) {
+    score += 2;
+  }
+  for (const selector of fingerprint.selectors ?? []) {
+    if ($(selector).length > 0) {
+      score += 1;
+    }
+  }
+  if (fingerprint.scripts && assets.some(asset => fingerprint.scripts!.test(asset))) {
+    score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * 根据 meta generator、框架特有的类名和脚本路径识别文档框架
+ * @param html 页面 HTML
+ * @returns 匹配的预设,无法识别时返回 undefined
+ */
+export function detectPreset(html: string): Preset | undefined {
+  const $ = load(html);
+  const generator = $('meta[name="generator"]').toArray().map(meta => $(meta).attr('content') ?? '').join(' ');
+  const assets = [
+    ...$('script[src]').toArray().map(script => $(script).attr('src')!),
+    ...$('link[href]').toArray().map(link => $(link).attr('href')!)
+  ];
+
+  let best: { preset: Preset; score: number } | undefined;
+  for (const preset of PRESETS) {
+    const score = fingerprintScore($, preset, generator, assets);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { preset, score };
+    }
+  }
+
+  return best?.preset;
+}
+
+/**
+ * 获取页面并识别文档框架
+ * @param url 页面 URL
+ * @param options 请求选项
+ * @returns 匹配的预设,无法识别或获取失败时返回 undefined
+ */
+export async function fetchPreset(url: string, options: RequestOptions = {}): Promise<Preset | undefined> {
+  try {
+    const response = await httpFetch(url, options);
+    if (!response.ok) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    return detectPreset(await response.text());
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    return undefined;
+  }
+}
+
+/**
+ * 解析预设设置
+ * @param name 预设名,"auto" 表示根据入口页面自动识别
+ * @param url 入口 URL
+ * @param options 请求选项
+ * @returns 预设,未设置或无法识别时返回 undefined
+ */
+export async function resolvePreset(name: string | undefined, url: string, options: RequestOptions = {}): Promise<Preset | undefined> {
+  if (!name) {
+    return undefined;
+  }
+  if (name === AUTO_PRESET) {
+    return fetchPreset(url, options);
+  }
+
+  const preset = getPreset(name);
+  if (!preset) {
+    throw new Error(`未知的预设: ${name} (可选: ${PRESET_NAMES.join(', ')})`);
+  }
+  return preset;
+}
@@ -8,6 +8,11 @@ export interface ProgressStats {
   skipped: number;
   inProgress: number;
   errors: Array<{ url: string; error: string }>;
+  skips: Array<{ url: string; reason: string }>;
+  warnings: Array<{ url: string; warning: string }>;
+  duplicates: Array<{ url: string; duplicateOf: string; reason: string }>;
+  retries: Record<string, number>;  // 每个 URL 的重试次数
+  tokens: number;                   // 已保存和未变化的文件的估算 token 数
 }
 
 /**
@@ -28,6 +33,11 @@ export class ProgressTracker {
       skipped: 0,
       inProgress: 0,
       errors: [],
+      skips: [],
+      warnings: [],
+      duplicates: [],
+      retries: {},
+      tokens: 0,
     };
     this.startTime = Date.now();
   }
@@ -63,14 +73,62 @@ export class ProgressTracker {
 
   /**
    * 标记一个页面被跳过
+   * @param url 页面 URL
+   * @param reason 跳过原因 (例如 "未变化")
    */
-  skip(): void {
+  skip(url: string, reason: string): void {
     this.stats.inProgress--;
     this.stats.completed++;
     this.stats.skipped++;
+    this.stats.skips.push({ url, reason });
     this.update();
   }
 
+  /**
+   * 将已完成的页面标记为重复页面 (抓取完成后检测),改为按跳过统计
+   * @param url 页面 URL
+   * @param duplicateOf 保留的页面 URL
+   * @param reason 判断依据 (例如 "内容相同")
+   * @param tokens 已计入的 token 数
+   */
+  duplicate(url: string, duplicateOf: string, reason: string, tokens: number): void {
+    const skipIndex = this.stats.skips.findIndex(skip => skip.url === url);
+    if (skipIndex >= 0) {
+      this.stats.skips.splice(skipIndex, 1);
+    } else {
+      this.stats.success--;
+      this.stats.skipped++;
+    }
+    this.stats.skips.push({ url, reason: '重复' });
+    this.stats.duplicates.push({ url, duplicateOf, reason });
+    this.stats.tokens -= tokens;
+  }
+
+  /**
+   * 记录一次重试 (不影响完成数量)
+   * @param url 页面 URL
+   */
+  retry(url: string): void {
+    this.stats.retries[url] = (this.stats.retries[url] ?? 0) + 1;
+  }
+
+  /**
+   * 记录一条警告 (不影响完成数量),在最终统计中显示
+   * @param url 页面 URL
+   * @param warning 警告信息
+   */
+  warn(url: string, warning: string): void {
+    this.stats.warnings.push({ url, warning });
+  }
+
+  /**
+   * 累计抓取结果文件的 token 数 (不影响完成数量)
+   * @param tokens 文件的估算 token 数
+   */
+  countTokens(tokens: number): void {
+    this.stats.tokens += tokens;
+  }
+
   /**
    * 更新进度显示
    */
@@ -122,7 +180,9 @@ export class ProgressTracker {
 
     console.log('\n=== 抓取完成 ===');
     console.log(`总计: ${this.stats.total} 个页面`);
-    console.log(`✅ 成功: ${this.stats.success}`);
+    // 有跳过的页面时 (例如增量抓取),成功的页面即为已更新的页面 (重复页面除外)
+    const incremental = this.stats.skips.some(skip => skip.reason !== '重复');
+    console.log(`✅ ${incremental ? '已更新' : '成功'}: ${this.stats.success}`);
 
     if (this.stats.failed > 0) {
       console.log(`❌ 失败: ${this.stats.failed}`);
@@ -136,9 +196,41 @@ export class ProgressTracker {
     }
 
     if (this.stats.skipped > 0) {
-      console.log(`⏭️  跳过: ${this.stats.skipped}`);
+      // 按原因分组统计
+      const reasons = new Map<string, number>();
+      for (const { reason } of this.stats.skips) {
+        reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+      }
+      const breakdown = [...reasons.entries()]
+        .map(([reason, count]) => `${reason} ${count}`)
+        .join(', ');
+      console.log(`⏭️  跳过: ${this.stats.skipped} (${breakdown})`);
+    }
+
+    if (this.stats.warnings.length > 0) {
+      console.log(`⚠️  警告: ${this.stats.warnings.length}`);
+      for (const { url, warning } of this.stats.warnings) {
+        console.log(`  - ${url}: ${warning}`);
+      }
+    }
+
+    if (this.stats.duplicates.length > 0) {
+      console.log(`🧬 重复页面 (已移除): ${this.stats.duplicates.length}`);
+      for (const { url, duplicateOf, reason } of this.stats.duplicates) {
+        console.log(`  - ${url} → ${duplicateOf} (${reason})`);
+      }
+    }
+
+    const retried = Object.entries(this.stats.retries);
+    if (retried.length > 0) {
+      const totalRetries = retried.reduce((sum, [, count]) => sum + count, 0);
+      console.log(`🔁 重试: ${totalRetries} 次 (${retried.length} 个页面)`);
+      for (const [url, count] of retried) {
+        console.log(`  - ${url}: ${count} 次`);
+      }
     }
 
+    console.log(`📏 Token: 约 ${this.stats.tokens.toLocaleString('en-US')} (估算)`);
     console.log(`⏱️  耗时: ${duration}s`);
   }
 
@@ -0,0 +1,133 @@
+// rate-limit.ts - 按主机限速和自适应并发
+import type { LimitFunction } from 'p-limit';
+import { sleep } from './retry';
+
+/**
+ * 令牌桶
+ * 令牌按固定速率补充,每个请求消耗一个令牌;令牌不足时排队等待
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * @param rate 每秒补充的令牌数 (即每秒请求数)
+   * @param capacity 桶容量 (允许的突发请求数)
+   */
+  constructor(private rate: number, private capacity: number = Math.max(1, Math.floor(rate))) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * 获取一个令牌,必要时等待
+   * 令牌可以预支为负数,后来的请求按顺序排在前面的请求之后
+   * @param signal 取消信号
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    this.refill();
+    this.tokens -= 1;
+
+    if (this.tokens < 0) {
+      await sleep((-this.tokens / this.rate) * 1000, signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * 按主机限速
+ * 每个主机使用独立的令牌桶,互不影响
+ */
+export class HostRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  /**
+   * @param requestsPerSecond 每个主机每秒最多请求数
+   * @param burst 允许的突发请求数
+   */
+  constructor(private requestsPerSecond: number, private burst?: number) {}
+
+  /**
+   * 在请求 URL 之前调用,等待该主机的令牌
+   * @param url 即将请求的 URL
+   * @param signal 取消信号
+   */
+  async acquire(url: string, signal?: AbortSignal): Promise<void> {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch (error) {
+      return;
+    }
+
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.requestsPerSecond, this.burst);
+      this.buckets.set(host, bucket);
+    }
+
+    await bucket.acquire(signal);
+  }
+}
+
+/**
+ * 表示服务器过载、需要降低请求压力的状态码
+ */
+const OVERLOAD_STATUSES = new Set([429, 503]);
+
+/**
+ * 自适应并发控制 (加性增、乘性减)
+ * 遇到 429/503 时将并发数减半,之后每连续成功一轮请求再增加 1,直到恢复上限
+ */
+export class AdaptiveConcurrency {
+  private successes: number = 0;
+  private lastBackoff: number = 0;
+  private backoffCooldown: number = 1000; // 两次减半之间的最小间隔（毫秒）
+
+  /**
+   * @param limit p-limit 并发限制器
+   * @param maxConcurrent 并发上限
+   */
+  constructor(private limit: LimitFunction, private maxConcurrent: number) {}
+
+  /**
+   * 当前并发数
+   */
+  get concurrency(): number {
+    return this.limit.concurrency;
+  }
+
+  /**
+   * 记录一次响应的状态码并调整并发数
+   * @param status HTTP 状态码
+   */
+  record(status: number): void {
+    if (OVERLOAD_STATUSES.has(status)) {
+      this.successes = 0;
+
+      // 同一批并发请求可能同时返回 429,冷却时间内只减半一次
+      const now = Date.now();
+      if (now - this.lastBackoff < this.backoffCooldown) {
+        return;
+      }
+      this.lastBackoff = now;
+      this.limit.concurrency = Math.max(1, Math.floor(this.limit.concurrency / 2));
+      return;
+    }
+
+    if (status >= 200 && status < 400 && this.limit.concurrency < this.maxConcurrent) {
+      this.successes++;
+      if (this.successes >= this.limit.concurrency) {
+        this.successes = 0;
+        this.limit.concurrency++;
+      }
+    }
+  }
+}
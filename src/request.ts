@@ -0,0 +1,74 @@
+// request.ts - 请求超时、取消和认证
+import type { RequestAuth } from './auth';
+import { version } from '../package.json';
+
+/**
+ * 默认的单个请求超时时间（毫秒）
+ */
+export const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * 默认的 User-Agent 请求头 (与 robots.txt 中匹配的爬虫名称一致)
+ */
+export const DEFAULT_USER_AGENT = `markgrab/${version}`;
+
+/**
+ * 单个请求的通用选项
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;  // 取消信号 (例如整个任务被取消或超过总时限)
+  timeout?: number;      // 单个请求超时时间（毫秒）
+  auth?: RequestAuth;    // 自定义请求头、认证和 Cookie
+  proxy?: string;        // 代理地址,未指定时读取 HTTPS_PROXY / HTTP_PROXY 环境变量
+  caFile?: string;       // 额外信任的 CA 证书文件 (PEM 格式)
+  userAgent?: string;    // User-Agent 请求头,默认 markgrab/<版本>
+}
+
+/**
+ * 生成单个请求使用的取消信号
+ * 外部信号被取消或请求超时时都会中止请求
+ * @param options 请求选项
+ * @returns 取消信号
+ */
+export function requestSignal(options: RequestOptions = {}): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT);
+  return options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+}
+
+/**
+ * 生成单个请求的 fetch 选项
+ * 附加认证请求头、User-Agent (不覆盖 init 中已有的同名请求头) 和取消信号
+ * @param url 请求 URL
+ * @param options 请求选项
+ * @param init 额外的 fetch 选项 (例如条件请求头)
+ * @returns fetch 选项
+ */
+export function requestInit(url: string, options: RequestOptions = {}, init: RequestInit = {}): RequestInit {
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(options.auth?.headersFor(url) ?? {})) {
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  }
+  if (!headers.has('User-Agent')) {
+    headers.set('User-Agent', options.userAgent ?? DEFAULT_USER_AGENT);
+  }
+
+  return { ...init, headers, signal: requestSignal(options) };
+}
+
+/**
+ * 组合任务级的取消信号
+ * @param signal 调用方传入的取消信号
+ * @param deadline 整个任务的总时限（毫秒）
+ * @returns 组合后的信号,两者都没有时返回 undefined
+ */
+export function jobSignal(signal?: AbortSignal, deadline?: number): AbortSignal | undefined {
+  const signals = [signal, deadline ? AbortSignal.timeout(deadline) : undefined]
+    .filter((s): s is AbortSignal => s !== undefined);
+
+  if (signals.length === 0) {
+    return undefined;
+  }
+  return signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+}
@@ -1,76 +1,192 @@
 // retry.ts - 重试逻辑
 
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+  maxRetries?: number;   // 最大重试次数
+  baseDelay?: number;    // 基础延迟时间（毫秒）
+  maxDelay?: number;     // 单次等待的最长时间（毫秒）,同样限制 Retry-After
+  onRetry?: (info: RetryInfo) => void;  // 每次重试前调用
+  signal?: AbortSignal;  // 任务级取消信号,取消后不再重试
+}
+
+/**
+ * 单次重试的信息
+ */
+export interface RetryInfo {
+  attempt: number;  // 第几次重试 (从 1 开始)
+  delay: number;    // 等待时间（毫秒）
+  reason: string;   // 重试原因 (例如 "HTTP 503" 或错误码)
+}
+
+/**
+ * 可重试的 HTTP 状态码
+ */
+export const RETRYABLE_STATUS_CODES = new Set([
+  408,  // Request Timeout
+  425,  // Too Early
+  429,  // Too Many Requests
+  500,  // Internal Server Error
+  502,  // Bad Gateway
+  503,  // Service Unavailable
+  504,  // Gateway Timeout
+]);
+
+/**
+ * 可重试的网络错误码 (Node.js 和 Bun)
+ */
+export const RETRYABLE_ERROR_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ConnectionRefused',
+  'ConnectionClosed',
+  'FailedToOpenSocket',
+  'UND_ERR_SOCKET',
+]);
+
 /**
  * 睡眠指定时间
+ * @param ms 毫秒
+ * @param signal 取消信号,取消时立即以取消原因拒绝
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
- * 带重试的函数包装器
- * @param fn 要执行的异步函数
- * @param maxRetries 最大重试次数
- * @param baseDelay 基础延迟时间（毫秒）
- * @param retryableErrors 可重试的错误类型（可选）
- * @returns 函数执行结果
+ * 读取错误码 (包括 error.cause 中的错误码)
  */
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000,
-  retryableErrors?: string[]
-): Promise<T> {
-  let lastError: Error | unknown;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
+function errorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string') {
+    return code;
+  }
+  return errorCode(cause);
+}
 
-      // 如果已经是最后一次尝试，直接抛出错误
-      if (attempt === maxRetries) {
-        break;
-      }
+/**
+ * 判断错误是否可以重试
+ * @param error 抛出的错误
+ * @returns 网络层的临时错误或单个请求超时返回 true
+ */
+export function isRetryableError(error: unknown): boolean {
+  // 单个请求超时 (AbortSignal.timeout)
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return true;
+  }
 
-      // 检查是否应该重试此错误
-      if (retryableErrors && error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-        const shouldRetry = retryableErrors.some(retryable =>
-          errorMessage.includes(retryable.toLowerCase())
-        );
-
-        if (!shouldRetry) {
-          // 不可重试的错误，直接抛出
-          throw error;
-        }
-      }
+  const code = errorCode(error);
+  return code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+}
 
-      // 计算延迟时间（指数退避）
-      const delay = baseDelay * Math.pow(2, attempt);
+/**
+ * 解析 Retry-After 响应头
+ * 支持秒数 (例如 "120") 和 HTTP 日期 (例如 "Wed, 21 Oct 2015 07:28:00 GMT")
+ * @param value 响应头的值
+ * @param now 当前时间戳（毫秒）
+ * @returns 需要等待的毫秒数,无法解析时返回 undefined
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
 
-      // 等待后重试
-      await sleep(delay);
-    }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
   }
 
-  // 所有重试都失败，抛出最后的错误
-  throw lastError;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
 }
 
 /**
- * 可重试的错误类型列表
+ * 计算带随机抖动的指数退避时间
+ * 在 [一半, 全部] 的指数延迟之间随机取值,避免并发请求同时重试
+ * @param attempt 第几次重试 (从 1 开始)
+ * @param baseDelay 基础延迟时间（毫秒）
+ * @param maxDelay 最长等待时间（毫秒）
+ * @returns 等待时间（毫秒）
  */
-export const RETRYABLE_HTTP_ERRORS = [
-  'timeout',
-  'ETIMEDOUT',
-  'ECONNRESET',
-  'ECONNREFUSED',
-  'ENOTFOUND',
-  'HTTP 429',  // Too Many Requests
-  'HTTP 500',  // Internal Server Error
-  'HTTP 502',  // Bad Gateway
-  'HTTP 503',  // Service Unavailable
-  'HTTP 504',  // Gateway Timeout
-];
+export function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * 带重试的请求包装器
+ * 根据响应状态码和错误码决定是否重试,遇到 Retry-After 响应头时按其等待
+ * 重试次数用完后返回最后一次的响应 (由调用方处理非 2xx 状态),或抛出最后一次的错误
+ * @param doFetch 发送请求的函数
+ * @param options 重试选项
+ * @returns 响应
+ */
+export async function fetchWithRetry(
+  doFetch: () => Promise<Response>,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const {
+    maxRetries = 3,
+    baseDelay = 1000,
+    maxDelay = 30000,
+    onRetry,
+    signal
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    let delay: number;
+    let reason: string;
+
+    try {
+      const response = await doFetch();
+
+      if (!RETRYABLE_STATUS_CODES.has(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      // 丢弃响应体,释放连接
+      await response.body?.cancel();
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      delay = retryAfter !== undefined
+        ? Math.min(retryAfter, maxDelay)
+        : backoffDelay(attempt + 1, baseDelay, maxDelay);
+      reason = `HTTP ${response.status}`;
+    } catch (error) {
+      // 任务被取消时不重试
+      if (signal?.aborted || !isRetryableError(error) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      delay = backoffDelay(attempt + 1, baseDelay, maxDelay);
+      reason = errorCode(error) ?? (error instanceof Error && error.name === 'TimeoutError' ? 'timeout' : 'network error');
+    }
+
+    onRetry?.({ attempt: attempt + 1, delay, reason });
+
+    // 等待后重试
+    await sleep(delay, signal);
+  }
+}
@@ -0,0 +1,224 @@
+// robots.ts - robots.txt 解析和访问规则判断
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+
+/**
+ * 匹配 robots.txt 分组时使用的爬虫名称
+ */
+export const USER_AGENT_TOKEN = 'markgrab';
+
+/**
+ * 单条 Allow / Disallow 规则
+ */
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;   // 路径模式,支持 * 通配符和 $ 结尾锚点
+}
+
+/**
+ * 一个 User-agent 分组
+ */
+export interface RobotsGroup {
+  userAgents: string[];   // 小写的爬虫名称
+  rules: RobotsRule[];
+  crawlDelay?: number;    // 秒
+}
+
+/**
+ * robots.txt 的完整内容
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];     // Sitemap: 声明 (绝对 URL)
+  unavailable?: boolean;  // robots.txt 暂时无法获取 (5xx 或网络错误),此时禁止所有路径
+}
+
+/**
+ * robots.txt 暂时无法获取时使用的规则: 禁止所有路径
+ */
+function disallowAll(): RobotsTxt {
+  return {
+    groups: [{ userAgents: ['*'], rules: [{ allow: false, pattern: '/' }] }],
+    sitemaps: [],
+    unavailable: true
+  };
+}
+
+/**
+ * 解析 robots.txt 内容
+ * 连续的 User-agent 行属于同一个分组,规则之后出现的 User-agent 行开始新的分组
+ * @param content robots.txt 文件内容
+ * @param robotsUrl robots.txt 的 URL (用于解析相对的 Sitemap 地址)
+ * @returns 解析后的结构化数据
+ */
+export function parseRobotsTxt(content: string, robotsUrl?: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+
+  let currentGroup: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // 移除注释
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent': {
+        if (!currentGroup || !lastWasUserAgent) {
+          currentGroup = { userAgents: [], rules: [] };
+          groups.push(currentGroup);
+        }
+        currentGroup.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        continue;
+      }
+
+      case 'allow':
+      case 'disallow': {
+        // 空的 Disallow 表示允许所有路径,不需要记录
+        if (currentGroup && value) {
+          currentGroup.rules.push({ allow: field === 'allow', pattern: value });
+        }
+        break;
+      }
+
+      case 'crawl-delay': {
+        const delay = Number(value);
+        if (currentGroup && Number.isFinite(delay) && delay >= 0) {
+          currentGroup.crawlDelay = delay;
+        }
+        break;
+      }
+
+      case 'sitemap': {
+        try {
+          sitemaps.push(new URL(value, robotsUrl).href);
+        } catch (error) {
+          // 跳过无效的 URL
+        }
+        break;
+      }
+    }
+
+    lastWasUserAgent = false;
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * 获取网站的 robots.txt
+ * @param baseUrl 网站的基础 URL
+ * @param options 请求选项 (超时和取消信号)
+ * @returns 解析后的内容;不存在 (4xx) 时返回 null (视为允许所有路径),
+ *          服务器错误 (5xx) 或无法访问时返回禁止所有路径的规则
+ */
+export async function fetchRobotsTxt(baseUrl: string, options: RequestOptions = {}): Promise<RobotsTxt | null> {
+  try {
+    const robotsUrl = `${new URL(baseUrl).origin}/robots.txt`;
+    const response = await httpFetch(robotsUrl, options);
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return response.status >= 500 ? disallowAll() : null;
+    }
+
+    return parseRobotsTxt(await response.text(), robotsUrl);
+  } catch (error) {
+    // 任务被取消时直接抛出,否则视为暂时无法访问
+    options.signal?.throwIfAborted();
+    return disallowAll();
+  }
+}
+
+/**
+ * 找到适用于指定爬虫的分组
+ * 优先使用名称匹配的分组,没有时使用 * 分组;多个匹配的分组会合并
+ */
+function matchGroups(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const token = userAgent.toLowerCase();
+
+  const named = robots.groups.filter(group =>
+    group.userAgents.some(agent => agent !== '*' && token.includes(agent))
+  );
+  if (named.length > 0) {
+    return named;
+  }
+
+  return robots.groups.filter(group => group.userAgents.includes('*'));
+}
+
+/**
+ * 将路径模式转换为正则表达式
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/**
+ * 判断 URL 是否允许抓取
+ * 使用最长匹配规则,长度相同时 Allow 优先
+ * @param robots robots.txt 内容
+ * @param url 要检查的 URL
+ * @param userAgent 爬虫名称
+ * @returns 是否允许
+ */
+export function isAllowed(robots: RobotsTxt, url: string, userAgent: string = USER_AGENT_TOKEN): boolean {
+  let path: string;
+  try {
+    const urlObj = new URL(url);
+    path = `${urlObj.pathname}${urlObj.search}`;
+  } catch (error) {
+    return true;
+  }
+
+  // robots.txt 本身总是允许访问
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let bestMatch: RobotsRule | null = null;
+
+  for (const group of matchGroups(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.pattern).test(path)) continue;
+
+      if (
+        !bestMatch ||
+        rule.pattern.length > bestMatch.pattern.length ||
+        (rule.pattern.length === bestMatch.pattern.length && rule.allow)
+      ) {
+        bestMatch = rule;
+      }
+    }
+  }
+
+  return bestMatch ? bestMatch.allow : true;
+}
+
+/**
+ * 获取适用于指定爬虫的 Crawl-delay
+ * @param robots robots.txt 内容
+ * @param userAgent 爬虫名称
+ * @returns 延迟秒数,未设置时返回 undefined
+ */
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string = USER_AGENT_TOKEN): number | undefined {
+  const delays = matchGroups(robots, userAgent)
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
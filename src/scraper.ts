@@ -1,18 +1,44 @@
 // scraper.ts - 核心抓取业务逻辑
-import { load } from 'cheerio';
-import TurndownService from 'turndown';
-import { mkdirSync } from 'fs';
+import { mkdirSync, existsSync, readdirSync } from 'fs';
+import { join, relative } from 'path';
 import pLimit from 'p-limit';
-import { fetchLlmsTxt, llmsTxtToPageLinks, getLlmsTxtStats } from './llms-txt';
+import { fetchLlmsTxt, llmsTxtToPageLinks, getLlmsTxtStats, rankLinksBySection } from './llms-txt';
 import { ProgressTracker } from './progress';
-import { withRetry, RETRYABLE_HTTP_ERRORS } from './retry';
+import { fetchWithRetry, type RetryInfo } from './retry';
+import { crawlLinks, extractLinksFromHtml } from './crawler';
+import { fetchSitemapLinks } from './sitemap';
+import { Manifest, hashContent, conditionalHeaders, type ManifestEntry } from './manifest';
+import { CrawlState } from './state';
+import { fetchRobotsTxt, isAllowed, getCrawlDelay, type RobotsTxt } from './robots';
+import { HostRateLimiter, AdaptiveConcurrency } from './rate-limit';
+import { jobSignal, type RequestOptions } from './request';
+import { httpFetch, resolveProxy, redactProxy } from './http';
+import { RequestAuth, type AuthOptions } from './auth';
+import { planOutputFiles, outputFile, type OutputLayout } from './layout';
+import { LinkIndex, rewriteMarkdownLinks, type LocalPage } from './links';
+import { resolveCanonicalUrl } from './url';
+import { AssetStore, ASSETS_DIR } from './assets';
+import { htmlToMarkdown } from './markdown';
+import { resolvePreset, AUTO_PRESET } from './presets';
+import { extractContent, findInvalidSelector, AUTO_CONTENT_SELECTOR, type ContentOptions } from './content';
+import { renderFrontMatter, splitFrontMatter, type ContentSource } from './front-matter';
+import { writeBundle, type BundleOptions } from './bundle';
+import { writeOutputIndex, firstParagraph, type SiteInfo } from './output-index';
+import { writeChunks, DEFAULT_CHUNK_TOKENS } from './chunks';
+import { estimateTokens, TokenBudget } from './tokens';
+import { compactMarkdown, type CompactOptions } from './compact';
+import { findDuplicates, removeDuplicates, DEFAULT_DUPLICATE_THRESHOLD, type Duplicate } from './duplicates';
+import { fetchVersions, selectVersion, guessVersion, isInVersion, versionDirName, type DocVersion } from './versions';
 
 // --- 类型定义 ---
 
 export interface ScraperOptions {
   baseUrl: string;
-  followLinksSelector: string;
-  contentAreaSelector: string;
+  followLinksSelector?: string; // 跟随链接选择器 (未设置时使用预设的选择器,空字符串表示不跟随)
+  contentAreaSelector?: string; // 内容区域选择器 (默认使用预设的选择器或 body)
+  excludeSelectors?: string[]; // 转换前移除的元素 (CSS 选择器),与预设的排除选择器合并
+  cleanBoilerplate?: boolean;  // 移除面包屑、上一页/下一页等页面框架 (默认 true)
+  preset?: string;        // 文档框架预设 ("auto" 表示自动识别)
   outputDir: string;
   useNativeMd?: boolean;
   useLlmsTxt?: boolean;
@@ -21,17 +47,64 @@ export interface ScraperOptions {
   maxRetries?: number;
   retryDelay?: number;
   maxConcurrent?: number;
+  maxDepth?: number;      // 跟随链接的最大深度 (默认 1,只跟随入口页面上的链接)
+  scope?: string;         // 跟随链接的 URL 前缀范围 (默认与入口页面同源)
+  maxPages?: number;      // 跟随链接或使用 sitemap 时最多抓取的页面数量
+  useSitemap?: boolean;   // 没有 llms.txt 和跟随链接时,尝试从 sitemap.xml 获取页面列表
+  resume?: boolean;       // 从上次中断的位置继续抓取
+  ignoreRobotsTxt?: boolean; // 忽略 robots.txt (仅用于自己的网站)
+  rateLimit?: number;     // 每个主机每秒最多请求数
+  timeout?: number;       // 单个请求超时时间（毫秒）
+  deadline?: number;      // 整个抓取任务的总时限（毫秒）
+  signal?: AbortSignal;   // 取消信号,取消后停止所有进行中的请求
+  auth?: AuthOptions;     // 自定义请求头、认证和 Cookie
+  layout?: OutputLayout;  // 输出文件布局 (默认 flat)
+  rewriteLinks?: boolean; // 抓取完成后将内部链接改写为本地文件的相对路径 (默认 true)
+  generateIndex?: boolean; // 抓取完成后在输出目录生成 llms.txt 和 index.md (默认 true)
+  downloadAssets?: boolean;   // 下载引用的图片到 assets/ 目录
+  assetExtensions?: string[]; // 同时下载的链接文件扩展名 (例如 pdf)
+  maxAssetSize?: number;      // 单个资源大小上限（字节）
+  frontMatter?: boolean;  // 在每个文件开头写入 YAML front matter (来源 URL、抓取时间等)
+  compact?: boolean;      // 压缩输出: 合并空白、移除 data URI 和空链接、缩短同站点链接 (代码块保持不变)
+  stripImages?: boolean;  // 压缩输出时同时移除所有图片 (隐含 compact)
+  bundle?: boolean;       // 抓取完成后将所有页面合并为一个文件 (<output>/<域名>/_bundle.md)
+  bundleMaxSize?: number;   // 单个合并文件的大小上限（字节）,超过时拆分
+  bundleMaxTokens?: number; // 单个合并文件的 token 上限,超过时拆分
+  chunks?: boolean;       // 抓取完成后按标题切分页面,导出 chunks.jsonl
+  chunkSize?: number;     // 目标分块大小 (token,默认 512)
+  maxTokens?: number;     // token 预算,已保存的文件达到预算后停止抓取 (使用 llms.txt 时按部分优先级抓取)
+  stripParams?: string[]; // 规范化 URL 时额外移除的查询参数 (例如 tab,支持 * 通配符),跟踪参数总是移除
+  dedupe?: boolean;       // 抓取完成后移除内容相同或高度相似的重复页面 (默认 false)
+  dedupeThreshold?: number; // 判断为重复页面的相似度阈值 (0-1,默认 0.9)
+  docVersion?: string;    // 只抓取文档的一个版本 (版本名或 "latest"),输出到 <output>/<域名>/<版本>/
+  proxy?: string;         // 代理地址 (默认读取 HTTPS_PROXY / HTTP_PROXY 环境变量)
+  caFile?: string;        // 额外信任的 CA 证书文件 (PEM 格式)
+  userAgent?: string;     // User-Agent 请求头 (默认 markgrab/<版本>)
+}
+
+/**
+ * 抓取结果
+ */
+export interface ScrapeResult {
+  outputDir: string;     // 实际输出目录 (<output>/<域名>,选择了文档版本时为 <output>/<域名>/<版本>)
+  version?: string;      // 抓取的文档版本
+  pages: PageResult[];   // 每个页面的抓取结果 (dry-run 模式下为空)
+  bundleFiles?: string[]; // 生成的合并文件
+  chunksFile?: string;   // 生成的 chunks.jsonl
+  duplicates?: Duplicate[]; // 移除的重复页面
+  totalTokens: number;   // 所有抓取结果文件的估算 token 数
+  budgetExhausted?: boolean; // 是否因达到 token 预算而停止
 }
 
 export interface PageLink {
   url: string;
   title: string;
   isFullContent?: boolean;  // 标记这是一个完整内容文件 (如 llms-full.txt)
+  file?: string;            // 输出文件路径 (相对于输出目录),由 planOutputFiles 分配
+  section?: string;         // llms.txt 中所在的部分
+  notes?: string;           // llms.txt 中的说明文字
 }
 
-// --- 初始化服务 ---
-const turndownService = new TurndownService();
-
 // --- 工具函数 ---
 
 /**
@@ -48,36 +121,73 @@ export function extractDomain(url: string): string {
   }
 }
 
+// 文件名清理已移至 layout.ts,保留导出以兼容旧的调用方
+export { sanitizeFilename } from './layout';
+
+/**
+ * 获取到的页面内容及其缓存校验信息
+ */
+interface FetchedContent {
+  markdown: string;
+  contentUrl: string;     // 实际提供内容的 URL
+  description?: string;   // 页面的 meta description
+  canonicalUrl?: string;  // 页面声明的规范地址 (与页面 URL 不同时)
+  etag?: string;
+  lastModified?: string;
+}
+
 /**
- * 清理字符串,使其成为有效的文件名
- * @param text 输入字符串 (例如 "API > Bun.Glob")
- * @returns 清理后的文件名 (例如 "api_bun_glob")
+ * 从响应中读取缓存校验信息
  */
-export function sanitizeFilename(text: string): string {
-  return text
-    .replace(/>/g, '') // 移除 >
-    .replace(/[^a-z0-9\s.-]/gi, '') // 移除特殊字符
-    .replace(/[\s.-]+/g, '_') // 替换空格和点为下划线
-    .toLowerCase();
+function cacheValidators(response: Response): Pick<FetchedContent, 'etag' | 'lastModified'> {
+  return {
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
 }
 
 /**
  * 尝试获取原生 Markdown 格式的内容
  * @param url 原始 URL
+ * @param options 请求选项 (超时、取消信号和认证)
  * @returns Markdown 内容,如果获取失败则返回 null
  */
-export async function tryFetchNativeMarkdown(url: string): Promise<string | null> {
+export async function tryFetchNativeMarkdown(url: string, options: RequestOptions = {}): Promise<string | null> {
+  const result = await fetchNativeMarkdown(url, undefined, options);
+  return result && result !== 'not-modified' ? result.markdown : null;
+}
+
+/**
+ * 尝试获取原生 Markdown,对上次使用的 Markdown 地址发送条件请求
+ * @param url 原始 URL
+ * @param previous 上次抓取的清单记录
+ * @param context 页面抓取上下文 (用于限速、重试和认证)
+ * @param onRetry 每次重试前调用
+ * @returns 内容,'not-modified' 表示内容未变化,获取失败则返回 null
+ */
+async function fetchNativeMarkdown(
+  url: string,
+  previous?: ManifestEntry,
+  context?: Partial<PageContext>,
+  onRetry?: (info: RetryInfo) => void
+): Promise<FetchedContent | 'not-modified' | null> {
   // 生成可能的 Markdown URL 列表
   const possibleMdUrls = generateMarkdownUrls(url);
 
   // 依次尝试每个 URL
   for (const mdUrl of possibleMdUrls) {
     try {
-      const response = await fetch(mdUrl, {
+      const response = await fetchWithPolicy(mdUrl, {
         headers: {
-          'Accept': 'text/markdown, text/plain, */*'
+          'Accept': 'text/markdown, text/plain, */*',
+          ...conditionalHeaders(previous, mdUrl)
         }
-      });
+      }, context, onRetry);
+
+      // 内容未变化 (只有发送了条件请求时才可能)
+      if (response.status === 304 && previous) {
+        return 'not-modified';
+      }
 
       // 检查响应是否成功
       if (!response.ok) {
@@ -97,8 +207,10 @@ export async function tryFetchNativeMarkdown(url: string): Promise<string | null
       }
 
       // 找到有效的 Markdown 内容
-      return text;
+      return { markdown: text, contentUrl: mdUrl, ...cacheValidators(response) };
     } catch (error) {
+      // 任务被取消时不再尝试其他 URL
+      context?.signal?.throwIfAborted();
       continue; // 尝试下一个 URL
     }
   }
@@ -155,61 +267,220 @@ function generateMarkdownUrls(url: string): string[] {
   return urls;
 }
 
+/**
+ * 单个页面的抓取上下文 (同一次抓取中所有页面共享)
+ */
+export interface PageContext extends RequestOptions, ContentOptions {
+  contentAreaSelector: string;  // 内容区域的 CSS 选择器
+  outputDir: string;            // 输出目录路径
+  useNativeMd: boolean;         // 是否尝试使用原生 Markdown
+  maxRetries: number;           // 最大重试次数
+  retryDelay: number;           // 重试延迟（毫秒）
+  manifest?: Manifest;          // 增量抓取清单
+  robots?: RobotsTxt;           // robots.txt 规则,禁止访问的页面会被跳过
+  rateLimiter?: HostRateLimiter;     // 按主机限速
+  concurrency?: AdaptiveConcurrency; // 根据 429/503 响应调整并发数
+  rewriteLinks?: boolean;       // 抓取完成后改写内部链接
+  assets?: AssetStore;          // 图片和附件下载器
+  frontMatter?: boolean;        // 写入 YAML front matter
+  compact?: CompactOptions;     // 压缩输出 (未设置时不压缩)
+  bundle?: BundleOptions;       // 抓取完成后生成合并文件
+  index?: SiteInfo;             // 抓取完成后生成 llms.txt 和 index.md
+  chunkSize?: number;           // 抓取完成后导出 chunks.jsonl 的目标分块大小 (未设置时不导出)
+  budget?: TokenBudget;         // token 预算
+  stripParams?: string[];       // 规范化 URL 时额外移除的查询参数
+  duplicateThreshold?: number;  // 抓取完成后检测重复页面的相似度阈值 (未设置时不检测)
+}
+
+/**
+ * 按抓取上下文的限速、并发和重试策略发送请求
+ * 每次尝试 (包括重试) 都会消耗限速令牌并上报状态码
+ * @param url 请求 URL
+ * @param init 请求选项
+ * @param context 页面抓取上下文
+ * @param onRetry 每次重试前调用
+ * @returns 响应
+ */
+async function fetchWithPolicy(
+  url: string,
+  init: RequestInit,
+  context?: Partial<PageContext>,
+  onRetry?: (info: RetryInfo) => void
+): Promise<Response> {
+  return fetchWithRetry(async () => {
+    await context?.rateLimiter?.acquire(url, context.signal);
+    const response = await httpFetch(url, context, init);
+    context?.concurrency?.record(response.status);
+    return response;
+  }, {
+    maxRetries: context?.maxRetries,
+    baseDelay: context?.retryDelay,
+    onRetry,
+    signal: context?.signal
+  });
+}
+
+/**
+ * 单个页面的抓取结果
+ */
+export interface PageResult {
+  url: string;
+  title: string;
+  status: 'saved' | 'unchanged' | 'blocked' | 'failed' | 'over-budget' | 'duplicate';
+  filePath?: string;
+  error?: string;
+  retries?: number;   // 重试次数
+  tokens?: number;    // 文件的估算 token 数 (saved 和 unchanged)
+  duplicateOf?: string; // 内容重复时保留的页面 URL (duplicate)
+}
+
+/**
+ * 抓取结果文件的 token 总数
+ */
+function totalTokens(pages: PageResult[]): number {
+  return pages.reduce((sum, page) => sum + (page.tokens ?? 0), 0);
+}
+
+/**
+ * 重复页面的判断依据 (用于统计摘要)
+ */
+function duplicateReason(duplicate: Duplicate): string {
+  switch (duplicate.reason) {
+    case 'canonical': return 'rel=canonical';
+    case 'identical': return '内容相同';
+    case 'similar': return `相似度 ${Math.round((duplicate.similarity ?? 0) * 100)}%`;
+  }
+}
+
+/**
+ * 因超出 token 预算而跳过的页面
+ */
+function overBudget(link: PageLink, progress?: ProgressTracker): PageResult {
+  if (!progress) {
+    console.log(`⏭️  超出 token 预算: ${link.title} (${link.url})`);
+  }
+  progress?.skip(link.url, '超出 token 预算');
+  return { url: link.url, title: link.title, status: 'over-budget' };
+}
+
 /**
  * 抓取单个页面并将其转换为 Markdown
- * @param url 要抓取的页面 URL
- * @param title 页面的标题 (用于文件名)
- * @param contentAreaSelector 内容区域的 CSS 选择器
- * @param outputDir 输出目录路径
- * @param useNativeMd 是否尝试使用原生 Markdown
- * @param isFullContent 是否是完整内容文件 (如 llms-full.txt)
+ * 如果清单中有该页面的记录,会发送条件请求,内容未变化时跳过写入
+ * @param link 要抓取的页面 (标题用于文件名)
+ * @param context 抓取上下文
  * @param progress 可选的进度追踪器
- * @param maxRetries 最大重试次数
- * @param retryDelay 重试延迟（毫秒）
+ * @returns 抓取结果
  */
 export async function scrapePage(
-  url: string,
-  title: string,
-  contentAreaSelector: string,
-  outputDir: string,
-  useNativeMd: boolean = true,
-  isFullContent: boolean = false,
-  progress?: ProgressTracker,
-  maxRetries: number = 3,
-  retryDelay: number = 1000
-): Promise<void> {
+  link: PageLink,
+  context: PageContext,
+  progress?: ProgressTracker
+): Promise<PageResult> {
+  const { url, title, isFullContent = false } = link;
+  const { contentAreaSelector, outputDir, useNativeMd, manifest, robots } = context;
+
+  // 生成文件路径 (未分配时按页面标题命名)
+  const filePath = `${outputDir}/${link.file ?? outputFile(link)}`;
+
+  // 上次的文件与本次的 front matter 或压缩设置不同时需要重写,不使用上次的记录
+  const frontMatter = context.frontMatter ?? false;
+  const compact = context.compact !== undefined;
+  const stripImages = context.compact?.stripImages ?? false;
+  const recorded = manifest?.get(url);
+  const previous = recorded
+    && (recorded.frontMatter ?? false) === frontMatter
+    && (recorded.compact ?? false) === compact
+    && (recorded.stripImages ?? false) === stripImages
+    ? recorded
+    : undefined;
+
+  // 统计本页面的重试次数
+  let retries = 0;
+  const onRetry = (info: RetryInfo) => {
+    retries++;
+    progress?.retry(url);
+    if (!progress) {
+      console.log(`   🔁 ${info.reason},${(info.delay / 1000).toFixed(1)}s 后第 ${info.attempt} 次重试`);
+    }
+  };
+
+  const fail = (errorMsg: string): PageResult => {
+    progress?.fail(url, errorMsg);
+    return { url, title, status: 'failed', error: errorMsg, retries };
+  };
+
+  // 内容未变化时沿用上次的文件和 token 数
+  const unchanged = (entry: ManifestEntry): PageResult => {
+    context.budget?.add(entry.tokens);
+
+    if (!progress) {
+      console.log(`⏭️  未变化: ${title} (${url})`);
+    }
+    progress?.skip(url, '未变化');
+    progress?.countTokens(entry.tokens);
+    return { url, title, status: 'unchanged', filePath: join(outputDir, entry.file), retries, tokens: entry.tokens };
+  };
+
   try {
     // 通知进度追踪器开始
     progress?.start();
 
+    // token 预算用完后不再抓取新的页面
+    if (context.budget?.isExhausted()) {
+      return overBudget(link, progress);
+    }
+
+    // 之前检测到的重复页面不再抓取 (只在检测重复页面时跳过)
+    const duplicateOf = context.duplicateThreshold !== undefined ? manifest?.duplicateOf(url) : undefined;
+    if (duplicateOf) {
+      if (!progress) {
+        console.log(`⏭️  重复页面: ${title} (${url} → ${duplicateOf})`);
+      }
+      progress?.skip(url, '重复');
+      return { url, title, status: 'duplicate', duplicateOf };
+    }
+
     // 如果有进度追踪器，不输出单个页面的日志，只在没有进度追踪器时输出
     if (!progress) {
       console.log(`⏳ 正在抓取: ${title} (${url})`);
     }
 
-    let markdown: string | null = null;
+    // robots.txt 禁止访问的页面不抓取
+    if (robots && !isAllowed(robots, url)) {
+      if (!progress) {
+        console.warn(`🚫 robots.txt 禁止抓取: ${url}`);
+      }
+      progress?.skip(url, 'robots.txt 禁止');
+      return { url, title, status: 'blocked' };
+    }
+
+    let content: FetchedContent | null = null;
+    let source: ContentSource = 'html';
 
     // 0. 如果是完整内容文件,直接获取并保存
     if (isFullContent) {
-      const response = await withRetry(
-        () => fetch(url),
-        maxRetries,
-        retryDelay,
-        RETRYABLE_HTTP_ERRORS
-      );
+      const response = await fetchWithPolicy(url, { headers: conditionalHeaders(previous, url) }, context, onRetry);
+
+      if (response.status === 304 && previous) {
+        return unchanged(previous);
+      }
 
       if (!response.ok) {
         const errorMsg = `HTTP ${response.status}: ${response.statusText}`;
         if (!progress) {
           console.error(`❌ 获取 ${url} 失败: ${errorMsg}`);
         }
-        progress?.fail(url, errorMsg);
-        return;
+        return fail(errorMsg);
       }
-      markdown = await response.text();
+      const text = await response.text();
 
       // 移除可能的系统提示行 (如 <SYSTEM>...</SYSTEM>)
-      markdown = markdown.replace(/<SYSTEM>.*?<\/SYSTEM>\s*/gs, '').trim();
+      content = {
+        markdown: text.replace(/<SYSTEM>.*?<\/SYSTEM>\s*/gs, '').trim(),
+        contentUrl: url,
+        ...cacheValidators(response)
+      };
+      source = 'full-content';
 
       if (!progress) {
         console.log(`   📄 使用完整内容文件`);
@@ -217,70 +488,160 @@ export async function scrapePage(
     }
     // 1. 如果允许,先尝试获取原生 Markdown
     else if (useNativeMd) {
-      markdown = await tryFetchNativeMarkdown(url);
-      if (markdown && !progress) {
+      const native = await fetchNativeMarkdown(url, previous, context, onRetry);
+      // 只有发送了条件请求时才会返回 not-modified
+      if (native === 'not-modified') {
+        return unchanged(previous!);
+      }
+      content = native;
+      if (content) {
+        source = 'native';
+      }
+      if (content && !progress) {
         console.log(`   📝 使用原生 Markdown`);
       }
     }
 
     // 2. 如果原生 Markdown 获取失败,则转换 HTML
-    if (!markdown) {
+    if (!content) {
       if (useNativeMd && !progress) {
         console.log(`   🔄 原生 Markdown 不可用,转换 HTML`);
       }
 
-      const response = await withRetry(
-        () => fetch(url),
-        maxRetries,
-        retryDelay,
-        RETRYABLE_HTTP_ERRORS
-      );
+      const response = await fetchWithPolicy(url, { headers: conditionalHeaders(previous, url) }, context, onRetry);
+
+      if (response.status === 304 && previous) {
+        return unchanged(previous);
+      }
 
       if (!response.ok) {
         const errorMsg = `HTTP ${response.status}: ${response.statusText}`;
         if (!progress) {
           console.error(`❌ 获取 ${url} 失败: ${errorMsg}`);
         }
-        progress?.fail(url, errorMsg);
-        return;
+        return fail(errorMsg);
       }
       const html = await response.text();
 
-      // 加载 HTML 并提取主要内容
-      const $ = load(html);
-      const contentHtml = $(contentAreaSelector).html();
+      // 移除页面框架并提取主要内容 (选择器没有匹配时自动识别)
+      const extracted = extractContent(html, contentAreaSelector, context);
 
-      if (!contentHtml) {
+      if (!extracted) {
         const errorMsg = `未找到内容区域: ${contentAreaSelector}`;
         if (!progress) {
           console.warn(`⚠️ 在 ${url} ${errorMsg}`);
         }
-        progress?.fail(url, errorMsg);
-        return;
+        return fail(errorMsg);
+      }
+
+      if (extracted.autoDetected && contentAreaSelector !== AUTO_CONTENT_SELECTOR) {
+        const warning = `未找到内容区域: ${contentAreaSelector},已自动识别主要内容`;
+        if (!progress) {
+          console.warn(`⚠️ 在 ${url} ${warning}`);
+        }
+        progress?.warn(url, warning);
       }
 
       // 转换为 Markdown
-      markdown = turndownService.turndown(contentHtml);
+      content = {
+        markdown: htmlToMarkdown(extracted.html),
+        contentUrl: url,
+        description: extracted.description,
+        canonicalUrl: extracted.canonical ? resolveCanonicalUrl(extracted.canonical, url, context.stripParams) : undefined,
+        ...cacheValidators(response)
+      };
+    }
+
+    // 压缩模式: 合并空白,移除 data URI 和空链接,缩短链接 (代码块保持不变)
+    if (context.compact) {
+      content.markdown = compactMarkdown(content.markdown, content.contentUrl, context.compact);
     }
 
-    // 3. 生成并保存文件
-    const filename = sanitizeFilename(title);
-    const filePath = `${outputDir}/${filename}.md`;
+    // 3. 内容与上次相同时不重写文件
+    const hash = hashContent(content.markdown);
+    const file = relative(outputDir, filePath);
+
+    // 索引信息: 页面标题、llms.txt 部分和一句话描述
+    const indexInfo = {
+      title,
+      section: link.section,
+      description: content.description ?? firstParagraph(content.markdown)
+    };
+
+    if (previous && previous.hash === hash && previous.file === file) {
+      manifest?.set({
+        ...previous,
+        ...indexInfo,
+        contentUrl: content.contentUrl,
+        canonicalUrl: content.canonicalUrl,
+        etag: content.etag,
+        lastModified: content.lastModified
+      });
+      return unchanged(previous);
+    }
+
+    // 4. 下载引用的图片和附件,并改写为本地路径
+    let markdown = context.assets
+      ? await context.assets.localize(content.markdown, content.contentUrl, file, (assetUrl, onAssetRetry) => fetchWithPolicy(assetUrl, {}, context, onAssetRetry))
+      : content.markdown;
+
+    // 5. 添加来源信息 (原生 Markdown 自带的 front matter 会合并到一起)
+    const updatedAt = new Date().toISOString();
+    if (frontMatter) {
+      const existing = splitFrontMatter(markdown);
+      markdown = renderFrontMatter({
+        sourceUrl: url,
+        title,
+        llmsSection: link.section,
+        llmsNotes: link.notes,
+        fetchedAt: updatedAt,
+        contentHash: hash,
+        source
+      }, existing.frontMatter) + existing.body.replace(/^\s*\n/, '');
+    }
 
+    // 6. 超出 token 预算时不保存,并停止抓取后续页面
+    const tokens = estimateTokens(markdown);
+    if (context.budget && !context.budget.reserve(tokens)) {
+      return overBudget(link, progress);
+    }
+
+    // 7. 保存文件
     await Bun.write(filePath, markdown);
     if (!progress) {
       console.log(`✅ 已保存: ${filePath}`);
     }
 
+    manifest?.set({
+      url,
+      file,
+      contentUrl: content.contentUrl,
+      canonicalUrl: content.canonicalUrl,
+      etag: content.etag,
+      lastModified: content.lastModified,
+      hash,
+      tokens,
+      frontMatter: frontMatter || undefined,
+      compact: compact || undefined,
+      stripImages: stripImages || undefined,
+      ...indexInfo,
+      updatedAt
+    });
+
     // 标记成功
     progress?.success();
+    progress?.countTokens(tokens);
+    return { url, title, status: 'saved', filePath, retries, tokens };
 
   } catch (error) {
+    // 任务被取消时不记录为失败页面,由调用方统一处理
+    context.signal?.throwIfAborted();
+
     const errorMsg = error instanceof Error ? error.message : String(error);
     if (!progress) {
       console.error(`❌ 处理 ${url} 时出错:`, errorMsg);
     }
-    progress?.fail(url, errorMsg);
+    return fail(errorMsg);
   }
 }
 
@@ -288,53 +649,312 @@ export async function scrapePage(
  * 从入口页面提取所有文档链接
  * @param baseUrl 入口 URL
  * @param followLinksSelector 跟随链接选择器
- * @returns 链接列表
+ * @param options 请求选项 (超时和取消信号)
+ * @param stripParams 规范化 URL 时额外移除的查询参数
+ * @returns 链接列表 (已规范化和去重)
  */
 export async function extractLinks(
   baseUrl: string,
-  followLinksSelector: string
+  followLinksSelector: string,
+  options: RequestOptions = {},
+  stripParams: string[] = []
 ): Promise<PageLink[]> {
-  const response = await fetch(baseUrl);
+  const response = await httpFetch(baseUrl, options);
   const html = await response.text();
-  const $ = load(html);
+  return extractLinksFromHtml(html, baseUrl, followLinksSelector, stripParams);
+}
+
+/**
+ * 将已保存文件中的内部链接改写为本地文件的相对路径
+ * 在所有页面抓取完成后运行,处理清单中的所有文件 (包括之前抓取的文件),
+ * 这样新抓取的页面也能被旧文件引用。改写是幂等的,已改写的链接不会再次变化。
+ * @param manifest 增量抓取清单
+ * @param outputDir 输出目录
+ * @param aliases 其他指向已保存文件的 URL (例如被移除的重复页面)
+ */
+async function rewriteInternalLinks(manifest: Manifest, outputDir: string, aliases: LocalPage[] = []): Promise<void> {
+  const entries = manifest.all().filter(entry => existsSync(join(outputDir, entry.file)));
+
+  // 指向已下载资源的相对链接保持不变
+  const assetsDir = join(outputDir, ASSETS_DIR);
+  const assetFiles = existsSync(assetsDir)
+    ? readdirSync(assetsDir).map(name => `${ASSETS_DIR}/${name}`)
+    : [];
+  const index = new LinkIndex([...entries, ...aliases], assetFiles);
+
+  let files = 0;
+  let links = 0;
+  for (const entry of entries) {
+    const filePath = join(outputDir, entry.file);
+    const result = rewriteMarkdownLinks(await Bun.file(filePath).text(), entry.contentUrl, entry.file, index);
+
+    if (result.rewritten > 0) {
+      await Bun.write(filePath, result.markdown);
+      files++;
+      links += result.rewritten;
+    }
+  }
 
-  const linksToScrape: PageLink[] = [];
-  const seenUrls = new Set<string>();
+  if (links > 0) {
+    console.log(`🔗 已改写 ${files} 个文件中的 ${links} 个链接`);
+  }
+}
 
-  $(followLinksSelector).each((i, el) => {
-    const href = $(el).attr('href');
-    const title = $(el).text().trim();
+/**
+ * 重复页面的本地文件: 指向重复页面的链接改写为保留的文件
+ * @param manifest 增量抓取清单
+ */
+function duplicateAliases(manifest: Manifest): LocalPage[] {
+  const pages = new Map(manifest.all().map(entry => [entry.url, entry]));
+  return manifest.duplicates().flatMap(entry => {
+    const kept = pages.get(entry.duplicateOf!);
+    return kept ? [{ url: entry.url, contentUrl: entry.contentUrl, file: kept.file }] : [];
+  });
+}
 
-    if (href && title) {
-      // 过滤掉资源文件
-      if (href.includes('_next') || href.includes('sitemap') ||
-          href.includes('favicon') || title.length === 0) {
-        return;
-      }
+/**
+ * 所有页面抓取完成后的处理: 移除重复页面、改写内部链接、显示资源下载统计、生成索引、分块和合并文件
+ * @param context 抓取上下文
+ * @param links 本次抓取的全部页面 (按 llms.txt 或导航顺序)
+ * @returns 移除的重复页面、生成的分块文件和合并文件
+ */
+async function postProcess(context: PageContext, links: PageLink[]): Promise<Pick<ScrapeResult, 'bundleFiles' | 'chunksFile' | 'duplicates'>> {
+  // 重复页面只保留第一个,清单中保留重复页面的记录,指向重复页面的链接改写为保留的文件
+  let duplicates: Duplicate[] = [];
+  if (context.duplicateThreshold !== undefined && context.manifest) {
+    duplicates = await findDuplicates(links, context.manifest.all(), context.outputDir, context.duplicateThreshold);
+    removeDuplicates(duplicates, context.manifest, context.outputDir);
+    await context.manifest.save();
+  }
 
-      // 将相对 URL (例如 /docs/install) 转换为绝对 URL
-      const fullUrl = new URL(href, baseUrl).href;
+  if (context.rewriteLinks && context.manifest) {
+    await rewriteInternalLinks(context.manifest, context.outputDir, duplicateAliases(context.manifest));
+  }
 
-      // 去重
-      if (!seenUrls.has(fullUrl)) {
-        seenUrls.add(fullUrl);
-        linksToScrape.push({ url: fullUrl, title: title });
-      }
+  const assetSummary = context.assets?.summary();
+  if (assetSummary) {
+    console.log(`🖼️  资源: ${assetSummary}`);
+  }
+
+  if (context.index && context.manifest) {
+    const indexFiles = await writeOutputIndex(links, context.manifest.all(), context.outputDir, context.index);
+    if (indexFiles.length > 0) {
+      console.log(`🗂️  索引: ${indexFiles.map(file => relative(context.outputDir, file)).join(', ')}`);
     }
-  });
+  }
+
+  let chunksFile: string | undefined;
+  if (context.chunkSize && context.manifest) {
+    const chunks = await writeChunks(links, context.manifest.all(), context.outputDir, context.chunkSize);
+    if (chunks) {
+      chunksFile = chunks.path;
+      console.log(`✂️  分块: ${relative(context.outputDir, chunks.path)} (${chunks.pages} 个页面, ${chunks.chunks} 个分块)`);
+    }
+  }
+
+  const found = duplicates.length > 0 ? duplicates : undefined;
+  if (!context.bundle) {
+    return { duplicates: found, chunksFile };
+  }
+
+  const files = await writeBundle(links, context.outputDir, context.bundle, context.manifest?.bundleFiles());
+  if (context.manifest) {
+    context.manifest.setBundleFiles(files.map(file => relative(context.outputDir, file.path)));
+    await context.manifest.save();
+  }
+  for (const file of files) {
+    console.log(`📦 合并文件: ${relative(context.outputDir, file.path)} (${file.pages} 个页面, ${(file.bytes / 1024).toFixed(1)} KB, 约 ${file.tokens} tokens)`);
+  }
+  if (files.length === 0) {
+    console.warn(`⚠️  没有可以合并的页面`);
+  }
+  return { duplicates: found, chunksFile, bundleFiles: files.map(file => file.path) };
+}
+
+/**
+ * 为页面分配输出文件路径,文件名冲突时自动重命名并给出警告
+ * @param links 页面链接
+ * @param layout 输出布局
+ * @returns 设置了 file 的页面链接
+ */
+function planFiles(links: PageLink[], layout: OutputLayout): PageLink[] {
+  const plan = planOutputFiles(links, layout);
+
+  for (const collision of plan.collisions) {
+    console.warn(`⚠️  文件名冲突: ${collision.file} 对应 ${collision.urls.length} 个页面,已按 URL 顺序添加序号后缀`);
+    for (const url of collision.urls) {
+      console.warn(`   - ${url}`);
+    }
+  }
+
+  return plan.links;
+}
+
+/**
+ * 打印 dry-run 模式下将要抓取的页面和配置
+ * @param links 将要抓取的链接
+ * @param contentAreaSelector 内容区域选择器
+ * @param outputDir 输出目录
+ * @param useNativeMd 是否启用原生 Markdown
+ */
+function printDryRun(
+  links: PageLink[],
+  contentAreaSelector: string,
+  outputDir: string,
+  useNativeMd: boolean
+): void {
+  if (links.length === 1) {
+    console.log(`\n将要抓取的页面:`);
+  } else {
+    console.log(`\n将要抓取的页面 (共 ${links.length} 个):`);
+  }
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i];
+    if (link) {
+      console.log(`  ${i + 1}. ${link.title} - ${link.url}${link.file ? ` → ${link.file}` : ''}`);
+    }
+  }
+  console.log(`\n📊 配置:`);
+  console.log(`  内容选择器: ${contentAreaSelector}`);
+  console.log(`  输出目录: ${outputDir}`);
+  console.log(`  原生 Markdown: ${useNativeMd ? '启用' : '禁用'}`);
+  console.log(`\n💡 提示: 移除 --dry-run 参数开始实际抓取`);
+}
+
+/**
+ * 并发抓取链接列表并显示统计摘要
+ * 抓取过程中持续记录进度,任务被取消 (context.signal) 时先保存状态和清单再抛出错误
+ * @param links 要抓取的链接
+ * @param context 页面抓取上下文
+ * @param maxConcurrent 最大并发数
+ * @param state 抓取状态 (用于中断后恢复)
+ * @returns 每个页面的抓取结果和生成的合并文件
+ */
+async function scrapeLinks(
+  links: PageLink[],
+  context: PageContext,
+  maxConcurrent: number,
+  state: CrawlState
+): Promise<Omit<ScrapeResult, 'outputDir'>> {
+  // 创建进度追踪器
+  const progress = new ProgressTracker(links.length);
+
+  // 创建并发限制器,遇到 429/503 时自动降低并发数
+  const limit = pLimit(maxConcurrent);
+  const pageContext: PageContext = {
+    ...context,
+    concurrency: new AdaptiveConcurrency(limit, maxConcurrent)
+  };
+
+  // 开始前写入一次状态,保证抓取中途崩溃也能恢复
+  state.flush();
+
+  let results: PageResult[];
+  const started: Promise<PageResult>[] = []; // 已开始抓取的页面
+  try {
+    // 并发抓取所有页面（带并发控制）
+    results = await Promise.all(
+      links.map(link => limit(() => {
+        const task = (async () => {
+          // 任务被取消后不再开始新的页面
+          pageContext.signal?.throwIfAborted();
+
+          const result = await scrapePage(link, pageContext, progress);
+          if (result.status === 'failed') {
+            state.markFailed(link, result.error ?? '');
+          } else if (result.status !== 'over-budget') {
+            state.markDone(link.url);
+          }
+          return result;
+        })();
+        started.push(task);
+        return task;
+      }))
+    );
+  } catch (error) {
+    // 被取消时丢弃排队中的页面,等待进行中的页面结束后保存进度,之后可以使用 --resume 继续
+    limit.clearQueue();
+    await Promise.allSettled(started);
+    state.flush();
+    await context.manifest?.save();
+    console.log(`\n\n⏸️  已停止,进度已保存。使用 --resume 继续抓取`);
+    throw error;
+  }
+
+  await context.manifest?.save();
+
+  // 索引、分块和合并文件包含本次抓取的全部页面 (恢复抓取时也包括之前完成的页面)
+  const outputs = await postProcess(context, state.links());
+
+  // 移除的重复页面在统计中显示为跳过
+  for (const duplicate of outputs.duplicates ?? []) {
+    const index = results.findIndex(result => result.url === duplicate.url);
+    const previous = results[index];
+    if (previous) {
+      progress.duplicate(duplicate.url, duplicate.duplicateOf, duplicateReason(duplicate), previous.tokens ?? 0);
+      results[index] = { url: previous.url, title: previous.title, status: 'duplicate', duplicateOf: duplicate.duplicateOf, retries: previous.retries };
+    }
+  }
+
+  // 全部成功时删除状态,有失败的页面时保留以便恢复重试
+  if (state.failedCount() === 0) {
+    state.clear();
+  } else {
+    state.flush();
+  }
+
+  // 显示统计摘要
+  progress.showSummary();
+  const budget = context.budget;
+  if (budget?.isExhausted()) {
+    const skipped = results.filter(result => result.status === 'over-budget').length;
+    console.log(`🧮 已达到 token 预算 (${budget.limit.toLocaleString('en-US')}),跳过 ${skipped} 个页面`);
+  }
+  console.log(`\n📁 文件保存在: ${context.outputDir}`);
+  if (state.failedCount() > 0) {
+    console.log(`💡 提示: 使用 --resume 重新抓取失败的页面`);
+  }
+
+  return {
+    pages: results,
+    ...outputs,
+    totalTokens: totalTokens(results),
+    budgetExhausted: budget?.isExhausted() || undefined
+  };
+}
+
+/**
+ * 识别文档版本并选择要抓取的版本
+ * 版本切换菜单没有列出请求的版本时,根据入口 URL 中的版本段推测
+ * @param url 入口 URL
+ * @param wanted 版本名或 "latest"
+ * @param options 请求选项
+ * @returns 选择的版本
+ */
+async function resolveVersion(url: string, wanted: string, options: RequestOptions): Promise<DocVersion> {
+  const versions = await fetchVersions(url, options);
+  const version = selectVersion(versions, wanted) ?? guessVersion(url, wanted);
+  if (!version) {
+    const available = versions.map(candidate => candidate.name).join(', ');
+    throw new Error(available
+      ? `未找到文档版本: ${wanted} (可选: ${available})`
+      : `未识别出文档版本 (URL 中没有版本号,也没有找到版本切换菜单): ${wanted}`);
+  }
 
-  return linksToScrape;
+  if (versions.length > 0) {
+    console.log(`🔖 文档版本: ${versions.map(candidate => candidate.current ? `${candidate.name} (当前)` : candidate.name).join(', ')}`);
+  }
+  console.log(`🔖 抓取版本: ${version.name}${versions.includes(version) ? '' : ' (根据 URL 推测)'}`);
+  return version;
 }
 
 /**
  * 主抓取函数
  * @param options 抓取选项
  */
-export async function scrape(options: ScraperOptions): Promise<void> {
+export async function scrape(options: ScraperOptions): Promise<ScrapeResult> {
   const {
-    baseUrl,
-    followLinksSelector,
-    contentAreaSelector,
+    baseUrl: entryUrl,
     outputDir: baseOutputDir,
     useNativeMd = true,
     useLlmsTxt = true,
@@ -342,31 +962,201 @@ export async function scrape(options: ScraperOptions): Promise<void> {
     dryRun = false,
     maxRetries = 3,
     retryDelay = 1000,
-    maxConcurrent = 10
+    maxConcurrent = 10,
+    maxDepth = 1,
+    scope,
+    maxPages,
+    useSitemap = true,
+    resume = false,
+    ignoreRobotsTxt = false,
+    rateLimit,
+    timeout,
+    deadline,
+    layout = 'flat',
+    rewriteLinks = true,
+    generateIndex = true,
+    downloadAssets = false,
+    assetExtensions,
+    maxAssetSize,
+    frontMatter = false,
+    compact = false,
+    stripImages = false,
+    bundle = false,
+    chunks = false,
+    stripParams = [],
+    dedupe = false,
+    cleanBoilerplate = true
   } = options;
 
+  const invalidSelector = findInvalidSelector(options.excludeSelectors ?? []);
+  if (invalidSelector !== undefined) {
+    throw new Error(`无效的排除选择器: ${invalidSelector}`);
+  }
+
+  // 任务级取消信号: 调用方取消或超过总时限
+  const signal = jobSignal(options.signal, deadline);
+
+  // 认证信息只保存在内存中,日志只显示类型和名称
+  const auth = RequestAuth.load(entryUrl, options.auth);
+  const requestOptions: RequestOptions = {
+    signal,
+    timeout,
+    auth,
+    proxy: options.proxy,
+    caFile: options.caFile,
+    userAgent: options.userAgent
+  };
+
   // Dry-run 模式提示
   if (dryRun) {
     console.log(`🔍 预览模式 (--dry-run)\n`);
   } else {
-    console.log(`🚀 开始抓取: ${baseUrl}`);
+    console.log(`🚀 开始抓取: ${entryUrl}`);
+  }
+
+  // 多版本文档: 只抓取选择的版本,入口页面不属于该版本时从该版本的入口开始
+  const version = options.docVersion ? await resolveVersion(entryUrl, options.docVersion, requestOptions) : undefined;
+  const baseUrl = version && !isInVersion(entryUrl, version) ? version.url : entryUrl;
+  if (baseUrl !== entryUrl) {
+    console.log(`   入口: ${baseUrl}`);
+  }
+
+  // 文档框架预设提供默认的选择器,显式设置的选择器优先
+  const preset = await resolvePreset(options.preset, baseUrl, requestOptions);
+  if (preset) {
+    console.log(`🧩 预设: ${preset.title}${options.preset === AUTO_PRESET ? ' (自动识别)' : ''}`);
+  } else if (options.preset === AUTO_PRESET) {
+    console.log(`🧩 未识别出文档框架,使用默认设置`);
   }
 
+  const contentAreaSelector = options.contentAreaSelector ?? preset?.contentAreaSelector ?? 'body';
+  const followLinksSelector = options.followLinksSelector ?? preset?.followLinksSelector;
+  const followFromPreset = options.followLinksSelector === undefined && followLinksSelector !== undefined;
+  const excludeSelectors = [...preset?.excludeSelectors ?? [], ...options.excludeSelectors ?? []];
+
   console.log(`📄 内容区域选择器: ${contentAreaSelector}`);
+  if (excludeSelectors && excludeSelectors.length > 0) {
+    console.log(`🧹 排除: ${excludeSelectors.join(', ')}`);
+  }
   console.log(`${useNativeMd ? '✨' : '🔄'} Markdown 模式: ${useNativeMd ? '优先使用原生 Markdown' : '仅 HTML 转换'}`);
+  if (compact || stripImages) {
+    console.log(`🗜️  压缩输出${stripImages ? ' (移除图片)' : ''}`);
+  }
+  if (stripParams.length > 0) {
+    console.log(`🧽 移除查询参数: ${stripParams.join(', ')}`);
+  }
+  if (auth) {
+    console.log(`🔐 认证: ${auth.describe()}`);
+  }
+
+  const proxy = resolveProxy(baseUrl, options.proxy);
+  if (proxy) {
+    console.log(`🌐 代理: ${redactProxy(proxy)}`);
+  }
+  if (options.caFile) {
+    console.log(`🔒 额外的 CA 证书: ${options.caFile}`);
+  }
 
-  // 根据域名创建输出目录
+  // 根据域名 (和文档版本) 创建输出目录
   const domain = extractDomain(baseUrl);
-  const outputDir = `${baseOutputDir}/${domain}`;
+  const outputDir = version
+    ? `${baseOutputDir}/${domain}/${versionDirName(version)}`
+    : `${baseOutputDir}/${domain}`;
 
   // 确保输出目录存在
   mkdirSync(outputDir, { recursive: true });
   console.log(`📁 输出目录: ${outputDir}`);
 
+  const result: ScrapeResult = { outputDir, version: version?.name, pages: [], totalTokens: 0 };
+
+  // 加载增量抓取清单 (dry-run 模式下不需要)
+  const manifest = dryRun ? undefined : await Manifest.load(outputDir);
+  // 索引和合并文件的标题
+  const siteTitle = version ? `${domain} ${version.name}` : domain;
+
+  // 加载 robots.txt (除非明确忽略)
+  let robots: RobotsTxt | undefined;
+  if (ignoreRobotsTxt) {
+    console.log(`⚠️  已忽略 robots.txt`);
+  } else {
+    robots = await fetchRobotsTxt(baseUrl, requestOptions) ?? undefined;
+    if (robots?.unavailable) {
+      console.warn(`⚠️  无法获取 robots.txt (服务器错误或无法访问),所有页面均视为禁止抓取`);
+    } else if (robots) {
+      console.log(`🤖 已加载 robots.txt`);
+    }
+  }
+
+  // 按主机限速: 取 --rate-limit 和 robots.txt Crawl-delay 中更严格的一个
+  const crawlDelay = robots ? getCrawlDelay(robots) : undefined;
+  const crawlDelayRate = crawlDelay ? 1 / crawlDelay : undefined;
+  const requestsPerSecond = Math.min(rateLimit ?? Infinity, crawlDelayRate ?? Infinity);
+  let rateLimiter: HostRateLimiter | undefined;
+  if (Number.isFinite(requestsPerSecond)) {
+    // Crawl-delay 要求请求之间保持间隔,不允许突发
+    rateLimiter = new HostRateLimiter(requestsPerSecond, crawlDelayRate ? 1 : undefined);
+    console.log(`🐢 限速: 每个主机 ${Number(requestsPerSecond.toFixed(2))} 个请求/秒${crawlDelay ? ` (robots.txt Crawl-delay: ${crawlDelay}s)` : ''}`);
+  }
+
+  if (options.maxTokens) {
+    console.log(`🧮 token 预算: ${options.maxTokens.toLocaleString('en-US')}`);
+  }
+
+  const context: PageContext = {
+    contentAreaSelector,
+    outputDir,
+    useNativeMd,
+    maxRetries,
+    retryDelay,
+    manifest,
+    robots,
+    rateLimiter,
+    rewriteLinks,
+    assets: downloadAssets ? new AssetStore(outputDir, { maxSize: maxAssetSize, extensions: assetExtensions }) : undefined,
+    frontMatter,
+    compact: compact || stripImages ? { stripImages } : undefined,
+    bundle: bundle ? { title: siteTitle, maxSize: options.bundleMaxSize, maxTokens: options.bundleMaxTokens } : undefined,
+    index: generateIndex ? { title: siteTitle, baseUrl } : undefined,
+    chunkSize: chunks ? options.chunkSize ?? DEFAULT_CHUNK_TOKENS : undefined,
+    budget: options.maxTokens ? new TokenBudget(options.maxTokens) : undefined,
+    stripParams,
+    duplicateThreshold: dedupe ? options.dedupeThreshold ?? DEFAULT_DUPLICATE_THRESHOLD : undefined,
+    excludeSelectors,
+    cleanBoilerplate,
+    ...requestOptions
+  };
+
   try {
+    // 0. 从上次中断的位置继续 (如果启用)
+    if (resume) {
+      const state = await CrawlState.load(outputDir, baseUrl);
+
+      if (state) {
+        const links = state.remaining();
+        console.log(`⏯️  恢复上次的抓取: 已完成 ${state.doneCount()} 个,剩余 ${links.length} 个 (其中失败 ${state.failedCount()} 个)`);
+
+        if (dryRun) {
+          printDryRun(links, contentAreaSelector, outputDir, useNativeMd);
+          return result;
+        }
+
+        if (links.length === 0) {
+          state.clear();
+          console.log(`🎉 没有需要继续抓取的页面`);
+          return result;
+        }
+
+        console.log(`🚀 继续抓取 ${links.length} 个文档...\n`);
+        Object.assign(result, await scrapeLinks(links, context, maxConcurrent, state));
+        return result;
+      }
+
+      console.warn(`⚠️  未找到可恢复的抓取状态,重新开始抓取`);
+    }
+
     // 1. 尝试使用 llms.txt (如果启用)
     if (useLlmsTxt) {
-      const llmsTxt = await fetchLlmsTxt(baseUrl);
+      const llmsTxt = await fetchLlmsTxt(baseUrl, requestOptions);
 
       if (llmsTxt) {
         // 获取统计信息
@@ -392,43 +1182,29 @@ export async function scrape(options: ScraperOptions): Promise<void> {
         }
 
         // 提取链接
-        const links = llmsTxtToPageLinks(llmsTxt, baseUrl, includeOptional);
+        // 有 token 预算时按部分优先级抓取,预算用完时跳过的是优先级最低的页面
+        const pageLinks = llmsTxtToPageLinks(llmsTxt, baseUrl, includeOptional, stripParams)
+          .filter(link => !version || isInVersion(link.url, version));
+        if (version) {
+          console.log(`   版本 ${version.name}: ${pageLinks.length} 个链接`);
+        }
+        const links = planFiles(options.maxTokens ? rankLinksBySection(pageLinks) : pageLinks, layout);
 
         if (links.length > 0) {
           // Dry-run 模式：只显示链接列表
           if (dryRun) {
-            console.log(`\n将要抓取的页面 (共 ${links.length} 个):`);
-            for (let i = 0; i < links.length; i++) {
-              const link = links[i];
-              if (link) {
-                console.log(`  ${i + 1}. ${link.title} - ${link.url}`);
-              }
-            }
-            console.log(`\n📊 配置:`);
-            console.log(`  内容选择器: ${contentAreaSelector}`);
-            console.log(`  输出目录: ${outputDir}`);
-            console.log(`  原生 Markdown: ${useNativeMd ? '启用' : '禁用'}`);
-            console.log(`\n💡 提示: 移除 --dry-run 参数开始实际抓取`);
-            return;
+            printDryRun(links, contentAreaSelector, outputDir, useNativeMd);
+            return result;
           }
 
-          console.log(`🚀 开始抓取 ${links.length} 个文档...\n`);
-
-          // 创建进度追踪器
-          const progress = new ProgressTracker(links.length);
-
-          // 创建并发限制器
-          const limit = pLimit(maxConcurrent);
+          // 生成的索引沿用 llms.txt 的标题和简介
+          const llmsContext: PageContext = context.index
+            ? { ...context, index: { ...context.index, title: llmsTxt.title, description: llmsTxt.description } }
+            : context;
 
-          // 并发抓取所有页面（带并发控制）
-          await Promise.all(
-            links.map(link => limit(() => scrapePage(link.url, link.title, contentAreaSelector, outputDir, useNativeMd, link.isFullContent, progress, maxRetries, retryDelay)))
-          );
-
-          // 显示统计摘要
-          progress.showSummary();
-          console.log(`\n📁 文件保存在: ${outputDir}`);
-          return;
+          console.log(`🚀 开始抓取 ${links.length} 个文档...\n`);
+          Object.assign(result, await scrapeLinks(links, llmsContext, maxConcurrent, CrawlState.create(outputDir, baseUrl, links)));
+          return result;
         }
       }
     }
@@ -436,77 +1212,105 @@ export async function scrape(options: ScraperOptions): Promise<void> {
     // 2. 如果设置了 --follow，则抓取本页面 + 所有匹配链接
     if (followLinksSelector && followLinksSelector.trim() !== '') {
       console.log(`📋 跟随链接选择器: ${followLinksSelector}`);
+      if (maxDepth > 1) {
+        console.log(`🔁 递归深度: ${maxDepth}${scope ? `, 范围: ${scope}` : ''}${maxPages ? `, 最多 ${maxPages} 个页面` : ''}`);
+      }
 
-      // 提取所有链接
-      const links = await extractLinks(baseUrl, followLinksSelector);
-
-      if (links.length === 0) {
+      // 广度优先提取所有链接
+      const links = planFiles(await crawlLinks(baseUrl, followLinksSelector, {
+        maxDepth,
+        scope: scope ?? version?.scope,
+        exclude: version?.exclude,
+        maxPages,
+        maxConcurrent,
+        robots,
+        rateLimiter,
+        stripParams,
+        ...requestOptions
+      }), layout);
+
+      if (links.length === 0 && !followFromPreset) {
         console.error(`❌ 未找到任何链接,请检查选择器: ${followLinksSelector}`);
         console.warn(`⚠️  提示: 可能选择器不正确,或页面结构已改变`);
-        return;
+        return result;
       }
 
-      console.log(`🔍 找到 ${links.length} 个文档页面...`);
+      if (links.length > 0) {
+        console.log(`🔍 找到 ${links.length} 个文档页面...`);
 
-      // Dry-run 模式：只显示链接列表
-      if (dryRun) {
-        console.log(`\n将要抓取的页面 (共 ${links.length} 个):`);
-        for (let i = 0; i < links.length; i++) {
-          const link = links[i];
-          if (link) {
-            console.log(`  ${i + 1}. ${link.title} - ${link.url}`);
-          }
+        // Dry-run 模式：只显示链接列表
+        if (dryRun) {
+          printDryRun(links, contentAreaSelector, outputDir, useNativeMd);
+          return result;
         }
-        console.log(`\n📊 配置:`);
-        console.log(`  内容选择器: ${contentAreaSelector}`);
-        console.log(`  输出目录: ${outputDir}`);
-        console.log(`  原生 Markdown: ${useNativeMd ? '启用' : '禁用'}`);
-        console.log(`\n💡 提示: 移除 --dry-run 参数开始实际抓取`);
-        return;
+
+        console.log(`🚀 开始抓取...\n`);
+        Object.assign(result, await scrapeLinks(links, context, maxConcurrent, CrawlState.create(outputDir, baseUrl, links)));
+        return result;
       }
 
-      console.log(`🚀 开始抓取...\n`);
+      // 预设的导航选择器不适用于当前页面时,继续尝试 sitemap
+      console.warn(`⚠️  预设的跟随链接选择器没有找到链接`);
+    }
 
-      // 创建进度追踪器
-      const progress = new ProgressTracker(links.length);
+    // 3. 尝试使用 sitemap.xml (如果启用)
+    if (useSitemap) {
+      const sitemap = await fetchSitemapLinks(baseUrl, {
+        maxPages,
+        stripParams,
+        scope: version?.scope,
+        exclude: version?.exclude,
+        ...requestOptions
+      });
 
-      // 创建并发限制器
-      const limit = pLimit(maxConcurrent);
+      if (sitemap) {
+        const links = planFiles(sitemap.links, layout);
+        console.log(`🗺️  检测到 sitemap: ${sitemap.sitemapUrl}`);
+        console.log(`🔍 找到 ${links.length} 个范围内的页面...`);
 
-      // 并发抓取所有页面（带并发控制）
-      await Promise.all(
-        links.map(link => limit(() => scrapePage(link.url, link.title, contentAreaSelector, outputDir, useNativeMd, false, progress, maxRetries, retryDelay)))
-      );
+        // Dry-run 模式：只显示链接列表
+        if (dryRun) {
+          printDryRun(links, contentAreaSelector, outputDir, useNativeMd);
+          return result;
+        }
 
-      // 显示统计摘要
-      progress.showSummary();
-      console.log(`\n📁 文件保存在: ${outputDir}`);
-      return;
+        console.log(`🚀 开始抓取 ${links.length} 个文档...\n`);
+        Object.assign(result, await scrapeLinks(links, context, maxConcurrent, CrawlState.create(outputDir, baseUrl, links)));
+        return result;
+      }
     }
 
-    // 3. 否则只抓取当前页面
+    // 4. 否则只抓取当前页面
     console.log(`📄 只抓取当前页面`);
 
     // 从 URL 提取页面标题
     const urlPath = new URL(baseUrl).pathname;
     const title = urlPath.split('/').filter(Boolean).pop() || 'index';
+    const [page] = planFiles([{ url: baseUrl, title }], layout);
 
     // Dry-run 模式：只显示单页信息
     if (dryRun) {
-      console.log(`\n将要抓取的页面:`);
-      console.log(`  1. ${title} - ${baseUrl}`);
-      console.log(`\n📊 配置:`);
-      console.log(`  内容选择器: ${contentAreaSelector}`);
-      console.log(`  输出目录: ${outputDir}`);
-      console.log(`  原生 Markdown: ${useNativeMd ? '启用' : '禁用'}`);
-      console.log(`\n💡 提示: 移除 --dry-run 参数开始实际抓取`);
-      return;
+      printDryRun([page!], contentAreaSelector, outputDir, useNativeMd);
+      return result;
     }
 
-    await scrapePage(baseUrl, title, contentAreaSelector, outputDir, useNativeMd, false, undefined, maxRetries, retryDelay);
+    result.pages = [await scrapePage(page!, context)];
+    result.totalTokens = totalTokens(result.pages);
+    await manifest?.save();
+    Object.assign(result, await postProcess(context, [page!]));
+    console.log(`📏 Token: 约 ${result.totalTokens.toLocaleString('en-US')} (估算)`);
     console.log(`🎉 抓取完成! 文件保存在: ${outputDir}`);
+    return result;
 
   } catch (error) {
+    // 任务被取消或超过总时限
+    if (signal?.aborted) {
+      const reason = options.signal?.aborted
+        ? '抓取已取消'
+        : `抓取超时: 超过总时限 ${((deadline ?? 0) / 1000).toFixed(0)}s`;
+      throw new Error(reason);
+    }
+
     console.error('❌ 发生严重错误:', error);
     throw error;
   }
@@ -0,0 +1,190 @@
+// sitemap.ts - sitemap.xml 发现和解析
+import { load } from 'cheerio';
+import type { PageLink } from './scraper';
+import { canonicalizeUrl, pageKey, pathScope, isInScope } from './url';
+import { fetchRobotsTxt } from './robots';
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+
+/**
+ * sitemap 解析结果
+ */
+export interface SitemapContent {
+  sitemaps: string[];  // <sitemapindex> 中嵌套的 sitemap 地址
+  urls: string[];      // <urlset> 中的页面地址
+}
+
+/**
+ * sitemap 抓取选项
+ */
+export interface SitemapOptions extends RequestOptions {
+  scope?: string;        // URL 前缀范围,默认为入口 URL 所在路径
+  exclude?: string[];    // 范围内排除的 URL 前缀 (例如其他版本的文档)
+  maxPages?: number;     // 最多收集的页面数量
+  maxSitemaps?: number;  // 最多读取的 sitemap 文件数量 (防止索引无限嵌套)
+  stripParams?: string[];  // 规范化 URL 时额外移除的查询参数
+}
+
+/**
+ * sitemap 发现结果
+ */
+export interface SitemapLinks {
+  sitemapUrl: string;  // 实际使用的 sitemap 入口地址
+  links: PageLink[];
+}
+
+/**
+ * 解析 sitemap XML 内容
+ * 同时支持 <urlset> 和 <sitemapindex>
+ * @param xml sitemap XML 内容
+ * @returns 解析结果
+ */
+export function parseSitemap(xml: string): SitemapContent {
+  const $ = load(xml, { xmlMode: true });
+
+  const sitemaps: string[] = [];
+  const urls: string[] = [];
+
+  $('sitemap > loc').each((i, el) => {
+    const loc = $(el).text().trim();
+    if (loc) sitemaps.push(loc);
+  });
+
+  $('url > loc').each((i, el) => {
+    const loc = $(el).text().trim();
+    if (loc) urls.push(loc);
+  });
+
+  return { sitemaps, urls };
+}
+
+/**
+ * 从 robots.txt 中读取 Sitemap: 声明
+ * @param baseUrl 网站的基础 URL
+ * @param options 请求选项 (超时和取消信号)
+ * @returns sitemap 地址列表,获取失败时返回空数组
+ */
+export async function fetchRobotsSitemaps(baseUrl: string, options: RequestOptions = {}): Promise<string[]> {
+  const robots = await fetchRobotsTxt(baseUrl, options);
+  return robots?.sitemaps ?? [];
+}
+
+/**
+ * 获取并解析单个 sitemap 文件 (支持 .gz 压缩)
+ * @param sitemapUrl sitemap 地址
+ * @param options 请求选项 (超时和取消信号)
+ * @returns 解析结果,获取失败时返回 null
+ */
+async function fetchSitemap(sitemapUrl: string, options: RequestOptions): Promise<SitemapContent | null> {
+  try {
+    const response = await httpFetch(sitemapUrl, options);
+
+    if (!response.ok) {
+      return null;
+    }
+
+    let bytes = new Uint8Array(await response.arrayBuffer());
+
+    // gzip 魔数: 服务器没有用 Content-Encoding 解压的 .xml.gz 文件
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      bytes = Bun.gunzipSync(bytes);
+    }
+
+    const xml = new TextDecoder().decode(bytes);
+
+    // 验证是 sitemap 而不是 HTML 错误页面
+    if (!/<(urlset|sitemapindex)[\s>]/i.test(xml)) {
+      return null;
+    }
+
+    return parseSitemap(xml);
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    return null;
+  }
+}
+
+/**
+ * 根据 URL 生成页面标题
+ * @param url 页面 URL
+ * @returns 路径最后一段 (去掉扩展名),根路径返回 "index"
+ */
+function titleFromUrl(url: string): string {
+  const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+  if (!segment) {
+    return 'index';
+  }
+
+  try {
+    return decodeURIComponent(segment).replace(/\.[a-z0-9]+$/i, '') || 'index';
+  } catch (error) {
+    return segment;
+  }
+}
+
+/**
+ * 发现网站的 sitemap 并提取范围内的页面链接
+ * 依次尝试 robots.txt 中声明的 sitemap、/sitemap.xml 和 /sitemap_index.xml,
+ * 使用第一个包含范围内页面的 sitemap。嵌套的 sitemap 索引会按广度优先展开。
+ * @param baseUrl 入口 URL
+ * @param options sitemap 抓取选项
+ * @returns 页面链接,未找到可用的 sitemap 时返回 null
+ */
+export async function fetchSitemapLinks(
+  baseUrl: string,
+  options: SitemapOptions = {}
+): Promise<SitemapLinks | null> {
+  const {
+    scope = pathScope(baseUrl),
+    exclude = [],
+    maxPages = Infinity,
+    maxSitemaps = 50,
+    stripParams = []
+  } = options;
+
+  const origin = new URL(baseUrl).origin;
+  const candidates = [
+    ...await fetchRobotsSitemaps(baseUrl, options),
+    `${origin}/sitemap.xml`,
+    `${origin}/sitemap_index.xml`
+  ];
+
+  const visitedSitemaps = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (visitedSitemaps.has(candidate)) continue;
+
+    const links: PageLink[] = [];
+    const seenUrls = new Set<string>();
+    const queue = [candidate];
+
+    while (queue.length > 0 && visitedSitemaps.size < maxSitemaps && links.length < maxPages) {
+      const sitemapUrl = queue.shift()!;
+      if (visitedSitemaps.has(sitemapUrl)) continue;
+      visitedSitemaps.add(sitemapUrl);
+
+      const sitemap = await fetchSitemap(sitemapUrl, options);
+      if (!sitemap) continue;
+
+      queue.push(...sitemap.sitemaps);
+
+      for (const url of sitemap.urls) {
+        if (links.length >= maxPages) break;
+
+        const normalized = canonicalizeUrl(url, stripParams);
+        const key = normalized ? pageKey(normalized) : null;
+        if (!normalized || !key || seenUrls.has(key)) continue;
+        if (!isInScope(normalized, scope) || exclude.some(prefix => isInScope(normalized, prefix))) continue;
+
+        seenUrls.add(key);
+        links.push({ url: normalized, title: titleFromUrl(normalized) });
+      }
+    }
+
+    if (links.length > 0) {
+      return { sitemapUrl: candidate, links };
+    }
+  }
+
+  return null;
+}
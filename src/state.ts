@@ -0,0 +1,175 @@
+// state.ts - 抓取进度持久化 (用于中断后恢复)
+import { existsSync, writeFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import type { PageLink } from './scraper';
+
+/**
+ * 状态文件名,保存在 <output>/<域名>/ 目录下
+ */
+export const STATE_FILENAME = '.markgrab-state.json';
+
+/**
+ * 失败的页面 (恢复时会重新抓取)
+ */
+export interface FailedPage extends PageLink {
+  error: string;
+}
+
+/**
+ * 状态文件结构
+ */
+interface CrawlStateData {
+  version: 1;
+  baseUrl: string;
+  links: PageLink[];      // 全部页面 (按抓取顺序,用于生成合并文件)
+  pending: PageLink[];    // 尚未完成的页面
+  done: string[];         // 已完成的页面 URL
+  failed: FailedPage[];   // 失败的页面
+  updatedAt: string;
+}
+
+/**
+ * 抓取状态
+ * 记录待抓取队列、已完成和失败的页面,抓取过程中定期写入磁盘
+ */
+export class CrawlState {
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private saveInterval: number = 1000; // 最小写入间隔（毫秒）
+
+  private constructor(private outputDir: string, private data: CrawlStateData) {}
+
+  /**
+   * 为新的抓取任务创建状态
+   * @param outputDir 输出目录 (<output>/<域名>)
+   * @param baseUrl 入口 URL
+   * @param links 要抓取的页面
+   */
+  static create(outputDir: string, baseUrl: string, links: PageLink[]): CrawlState {
+    return new CrawlState(outputDir, {
+      version: 1,
+      baseUrl,
+      links: [...links],
+      pending: [...links],
+      done: [],
+      failed: [],
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * 读取输出目录下保存的状态
+   * @param outputDir 输出目录 (<output>/<域名>)
+   * @param baseUrl 入口 URL,与保存的状态不一致时视为没有状态
+   * @returns 状态,不存在或无法读取时返回 null
+   */
+  static async load(outputDir: string, baseUrl: string): Promise<CrawlState | null> {
+    const statePath = join(outputDir, STATE_FILENAME);
+
+    if (!existsSync(statePath)) {
+      return null;
+    }
+
+    try {
+      const data = await Bun.file(statePath).json() as CrawlStateData;
+      if (data.baseUrl !== baseUrl) {
+        return null;
+      }
+      return new CrawlState(outputDir, data);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 本次抓取的全部页面,按 llms.txt 或导航中的顺序
+   */
+  links(): PageLink[] {
+    return this.data.links;
+  }
+
+  /**
+   * 需要继续抓取的页面 (未完成的页面 + 失败的页面)
+   */
+  remaining(): PageLink[] {
+    const failed = this.data.failed.map(({ error, ...link }) => link);
+    return [...this.data.pending, ...failed];
+  }
+
+  /**
+   * 已完成的页面数量
+   */
+  doneCount(): number {
+    return this.data.done.length;
+  }
+
+  /**
+   * 失败的页面数量
+   */
+  failedCount(): number {
+    return this.data.failed.length;
+  }
+
+  /**
+   * 标记页面已完成 (包括内容未变化而跳过的页面)
+   */
+  markDone(url: string): void {
+    this.removePending(url);
+    this.data.failed = this.data.failed.filter(page => page.url !== url);
+    this.data.done.push(url);
+    this.scheduleSave();
+  }
+
+  /**
+   * 标记页面失败
+   */
+  markFailed(link: PageLink, error: string): void {
+    this.removePending(link.url);
+    this.data.failed = this.data.failed.filter(page => page.url !== link.url);
+    this.data.failed.push({ ...link, error });
+    this.scheduleSave();
+  }
+
+  /**
+   * 立即同步写入磁盘,用于抓取被取消或出错时保存
+   */
+  flush(): void {
+    this.cancelSave();
+    this.data.updatedAt = new Date().toISOString();
+    writeFileSync(join(this.outputDir, STATE_FILENAME), JSON.stringify(this.data, null, 2) + '\n');
+  }
+
+  /**
+   * 删除状态文件 (抓取全部完成后调用)
+   */
+  clear(): void {
+    this.cancelSave();
+    const statePath = join(this.outputDir, STATE_FILENAME);
+    if (existsSync(statePath)) {
+      unlinkSync(statePath);
+    }
+  }
+
+  private removePending(url: string): void {
+    this.data.pending = this.data.pending.filter(page => page.url !== url);
+  }
+
+  /**
+   * 限制写入频率,避免每个页面完成都写一次磁盘
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, this.saveInterval);
+  }
+
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// tokens.ts - 估算文本的 token 数量
+
+/**
+ * 中日韩文字 (通常每个字符约 1 个 token)
+ */
+const CJK_CHARS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/**
+ * 其他文字平均每个 token 对应的字符数
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * 估算文本的 token 数量
+ * 不依赖具体的分词器: 中日韩文字按每个字符 1 个 token 计算,其他文字按每 4 个字符 1 个 token 计算
+ * @param text 文本
+ * @returns 估算的 token 数量
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_CHARS)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / CHARS_PER_TOKEN);
+}
+
+/**
+ * token 预算
+ * 累计抓取结果的 token 数,保存新文件会超出预算时拒绝保存,之后不再开始新的页面
+ */
+export class TokenBudget {
+  private used = 0;
+  private exhausted = false;
+
+  /**
+   * @param limit 预算 (token)
+   */
+  constructor(readonly limit: number) {}
+
+  /**
+   * 为即将保存的文件预留 token
+   * @param tokens 文件的 token 数
+   * @returns 预算足够时返回 true,否则返回 false 并标记预算已用完
+   */
+  reserve(tokens: number): boolean {
+    if (this.used + tokens > this.limit) {
+      this.exhausted = true;
+      return false;
+    }
+    this.used += tokens;
+    return true;
+  }
+
+  /**
+   * 记录已经存在的文件 (内容未变化的页面),总是计入预算
+   * @param tokens 文件的 token 数
+   */
+  add(tokens: number): void {
+    this.used += tokens;
+    if (this.used >= this.limit) {
+      this.exhausted = true;
+    }
+  }
+
+  /**
+   * 预算是否已用完
+   */
+  isExhausted(): boolean {
+    return this.exhausted;
+  }
+}
@@ -0,0 +1,161 @@
+// url.ts - URL 规范化和抓取范围判断
+
+/**
+ * 规范化 URL,用于去重比较
+ * 移除 #fragment,保留其余部分
+ * @param url URL 字符串
+ * @returns 规范化后的 URL,无效 URL 返回 null
+ */
+export function normalizeUrl(url: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    return urlObj.href;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 默认移除的跟踪参数 (广告和统计来源)
+ */
+export const TRACKING_PARAMS = ['utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', '_ga', '_gl', 'ref_src', 'yclid'];
+
+/**
+ * 移除 URL 中匹配的查询参数
+ * @param url URL 对象 (会被修改)
+ * @param patterns 参数名,不区分大小写,支持 * 通配符 (例如 utm_*)
+ * @returns 移除的参数数量
+ */
+export function stripQueryParams(url: URL, patterns: string[]): number {
+  if (patterns.length === 0) {
+    return 0;
+  }
+
+  const matchers = patterns.map(pattern => new RegExp(
+    `^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`,
+    'i'
+  ));
+  const names = [...new Set(url.searchParams.keys())].filter(name => matchers.some(matcher => matcher.test(name)));
+  const removed = names.reduce((count, name) => count + url.searchParams.getAll(name).length, 0);
+  for (const name of names) {
+    url.searchParams.delete(name);
+  }
+  return removed;
+}
+
+/**
+ * 规范化页面 URL,在加入抓取队列前使用
+ * 移除 #fragment、跟踪参数和指定的查询参数 (例如切换标签页的 ?tab=)
+ * @param url URL 字符串
+ * @param stripParams 额外移除的查询参数,支持 * 通配符
+ * @returns 规范化后的 URL,无效 URL 返回 null
+ */
+export function canonicalizeUrl(url: string, stripParams: string[] = []): string | null {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    stripQueryParams(urlObj, [...TRACKING_PARAMS, ...stripParams]);
+    return urlObj.href;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 解析页面声明的规范地址 (<link rel="canonical">)
+ * @param href canonical 链接的 href
+ * @param pageUrl 页面 URL
+ * @param stripParams 额外移除的查询参数
+ * @returns 规范化后的绝对地址,无效或与页面本身相同时返回 undefined
+ */
+export function resolveCanonicalUrl(href: string, pageUrl: string, stripParams: string[] = []): string | undefined {
+  let canonical: string | null;
+  try {
+    canonical = canonicalizeUrl(new URL(href, pageUrl).href, stripParams);
+  } catch (error) {
+    return undefined;
+  }
+  return canonical && pageKey(canonical) !== pageKey(pageUrl) ? canonical : undefined;
+}
+
+/**
+ * 生成判断两个 URL 是否指向同一页面的键
+ * 忽略 #fragment、末尾斜杠、index 文件、页面扩展名和查询参数的顺序,
+ * 使 /docs/guide、/docs/guide/、/docs/guide/index.html 和 /docs/guide.md 对应同一个页面
+ * @param url URL 字符串
+ * @returns 页面键,无效 URL 返回 null
+ */
+export function pageKey(url: string): string | null {
+  const normalized = normalizeUrl(url);
+  if (!normalized) {
+    return null;
+  }
+
+  const urlObj = new URL(normalized);
+  urlObj.pathname = urlObj.pathname
+    .replace(/\/index\.(html?|md|mdx)$/i, '/')
+    .replace(/\.(html?|md|mdx)$/i, '')
+    .replace(/(.)\/$/, '$1');
+  urlObj.searchParams.sort();
+  return urlObj.href;
+}
+
+/**
+ * 根据入口 URL 生成默认的抓取范围 (同源)
+ * @param baseUrl 入口 URL
+ * @returns 范围前缀 (例如 "https://bun.com/")
+ */
+export function defaultScope(baseUrl: string): string {
+  return `${new URL(baseUrl).origin}/`;
+}
+
+/**
+ * 根据入口 URL 生成路径范围
+ * 例如 https://bun.com/docs/ 或 https://bun.com/docs → https://bun.com/docs/
+ * 以文件结尾的路径 (如 /docs/index.html) 取其所在目录
+ * @param baseUrl 入口 URL
+ * @returns 范围前缀
+ */
+export function pathScope(baseUrl: string): string {
+  const urlObj = new URL(baseUrl);
+  let pathname = urlObj.pathname;
+
+  // 以文件扩展名结尾时,取所在目录
+  if (/\/[^/]+\.[a-z0-9]+$/i.test(pathname)) {
+    pathname = pathname.slice(0, pathname.lastIndexOf('/') + 1);
+  }
+
+  if (!pathname.endsWith('/')) {
+    pathname += '/';
+  }
+
+  return `${urlObj.origin}${pathname}`;
+}
+
+/**
+ * 判断 URL 是否在抓取范围内
+ * 范围按前缀匹配,以 / 结尾的范围同时包含不带斜杠的目录本身
+ * (例如范围 https://bun.com/docs/ 包含 https://bun.com/docs)
+ * @param url 要检查的 URL
+ * @param scope 范围前缀
+ * @returns 是否在范围内
+ */
+export function isInScope(url: string, scope: string): boolean {
+  const normalized = normalizeUrl(url);
+  if (!normalized) {
+    return false;
+  }
+
+  if (normalized.startsWith(scope)) {
+    return true;
+  }
+
+  // 允许目录本身 (去掉末尾斜杠),忽略查询参数
+  if (scope.endsWith('/')) {
+    const withoutQuery = normalized.split('?')[0];
+    return withoutQuery === scope.slice(0, -1);
+  }
+
+  return false;
+}
@@ -0,0 +1,295 @@
+// versions.ts - 识别多版本文档的版本 (路径中的版本号和版本切换菜单)
+import { load, type CheerioAPI } from 'cheerio';
+import type { RequestOptions } from './request';
+import { httpFetch } from './http';
+import { normalizeUrl, isInScope } from './url';
+
+/**
+ * 选择最新版本的版本名
+ */
+export const LATEST_VERSION = 'latest';
+
+/**
+ * 路径中的版本段: v2、v1.28、5.0、2.x,以及常见的版本别名
+ */
+const VERSION_SEGMENT = /^(?:v\d+(?:[.-](?:\d+|x))*|\d+\.(?:\d+|x)(?:\.(?:\d+|x))*|latest|stable|current|dev|next)$/i;
+
+/**
+ * 版本切换菜单中的版本名 (允许 "5.0 (stable)" 之类的附加说明)
+ */
+const VERSION_LABEL = /^(v?\d+(?:\.(?:\d+|x))*|latest|stable|current|dev|next)\b/i;
+
+/**
+ * 选择 "latest" 时优先使用的版本别名 (按优先级)
+ */
+const LATEST_ALIASES = ['latest', 'stable', 'current'];
+
+/**
+ * 版本切换菜单中的链接 (类名、ID 或 name 包含 version 的元素)
+ */
+const SWITCHER_SELECTORS = [
+  '[class*="version" i] a[href]',
+  '[id*="version" i] a[href]',
+  'select[class*="version" i] option[value]',
+  'select[id*="version" i] option[value]',
+  'select[name*="version" i] option[value]'
+];
+
+/**
+ * 文档的一个版本
+ */
+export interface DocVersion {
+  name: string;        // 版本名 (例如 "v3"、"5.0"、"stable")
+  url: string;         // 该版本的入口 URL
+  scope: string;       // 该版本的 URL 前缀范围
+  exclude: string[];   // 位于范围内的其他版本的范围 (例如最新版本没有版本段时,旧版本位于其子路径中)
+  current: boolean;    // 是否是入口页面所在的版本
+}
+
+/**
+ * 查找 URL 路径中的版本段
+ * @param url 页面 URL
+ * @returns 版本段的位置和版本名,没有版本段时返回 null
+ */
+export function versionSegment(url: string): { index: number; name: string } | null {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  const index = segments.findIndex(segment => VERSION_SEGMENT.test(segment));
+  return index >= 0 ? { index, name: segments[index]! } : null;
+}
+
+/**
+ * 生成 URL 前 count 个路径段组成的范围前缀
+ */
+function prefixScope(url: string, count: number): string {
+  const urlObj = new URL(url);
+  const segments = urlObj.pathname.split('/').filter(Boolean).slice(0, count);
+  return `${urlObj.origin}/${segments.map(segment => `${segment}/`).join('')}`;
+}
+
+/**
+ * 规范化版本名用于比较 (忽略大小写、开头的 v 和结尾的 .x)
+ */
+function normalizeVersion(name: string): string {
+  return name.toLowerCase().replace(/^v(?=\d)/, '').replace(/\.x$/, '');
+}
+
+/**
+ * 比较两个数字版本号 (从新到旧排序),x 视为最大
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = normalizeVersion(a).split(/[.-]/);
+  const partsB = normalizeVersion(b).split(/[.-]/);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const valueA = partsA[i] === 'x' ? Infinity : Number(partsA[i] ?? -1);
+    const valueB = partsB[i] === 'x' ? Infinity : Number(partsB[i] ?? -1);
+    if (valueA !== valueB) {
+      return valueB - valueA;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 判断版本名是否是数字版本号
+ */
+function isNumbered(name: string): boolean {
+  return /^\d/.test(normalizeVersion(name));
+}
+
+/**
+ * 读取版本切换菜单中的链接
+ */
+function switcherLinks($: CheerioAPI, pageUrl: string): Array<{ url: string; label: string }> {
+  const links: Array<{ url: string; label: string }> = [];
+  for (const element of $(SWITCHER_SELECTORS.join(', ')).toArray()) {
+    const $element = $(element);
+    const href = $element.is('option') ? $element.attr('value') : $element.attr('href');
+    if (!href || href.startsWith('#') || /^(javascript|mailto):/i.test(href)) {
+      continue;
+    }
+    try {
+      links.push({ url: new URL(href, pageUrl).href, label: $element.text().replace(/\s+/g, ' ').trim() });
+    } catch (error) {
+      // 忽略无效的链接
+    }
+  }
+  return links;
+}
+
+/**
+ * 从页面中识别文档版本
+ * 版本来自入口 URL 中的版本段、版本切换菜单中的链接,以及页面上只有版本段不同的链接。
+ * 链接地址中有版本段时使用版本段作为版本名,否则使用链接文字 (例如没有版本段的最新版本)
+ * @param html 页面 HTML
+ * @param pageUrl 页面 URL
+ * @returns 版本列表 (版本别名在前,数字版本从新到旧),没有发现版本时返回空数组
+ */
+export function detectVersions(html: string, pageUrl: string): DocVersion[] {
+  const $ = load(html);
+  const current = versionSegment(pageUrl);
+  const origin = new URL(pageUrl).origin;
+  const candidates: Array<{ url: string; label: string }> = [];
+
+  if (current) {
+    candidates.push({ url: pageUrl, label: current.name });
+  }
+  candidates.push(...switcherLinks($, pageUrl));
+
+  // 页面上的其他链接只在版本段前的路径与入口页面相同时才视为版本
+  if (current) {
+    const prefix = prefixScope(pageUrl, current.index);
+    for (const element of $('a[href]').toArray()) {
+      try {
+        const url = new URL($(element).attr('href')!, pageUrl).href;
+        const segment = versionSegment(url);
+        if (segment && segment.index === current.index && url.startsWith(prefix)) {
+          candidates.push({ url, label: segment.name });
+        }
+      } catch (error) {
+        // 忽略无效的链接
+      }
+    }
+  }
+
+  // 没有版本段的版本 (例如最新版本) 的范围: 与其他版本的版本段位于同一层级
+  const segmentIndex = current?.index ?? candidates
+    .filter(candidate => new URL(candidate.url).origin === origin)
+    .map(candidate => versionSegment(candidate.url))
+    .find(segment => segment !== null)?.index;
+
+  const versions: DocVersion[] = [];
+  const seen = new Set<string>();
+  for (const { url, label } of candidates) {
+    const normalized = normalizeUrl(url);
+    if (!normalized) {
+      continue;
+    }
+
+    const segment = versionSegment(normalized);
+    const name = segment?.name ?? label.match(VERSION_LABEL)?.[1];
+    if (!name || seen.has(name.toLowerCase())) {
+      continue;
+    }
+    seen.add(name.toLowerCase());
+
+    const scope = segment
+      ? prefixScope(normalized, segment.index + 1)
+      : prefixScope(normalized, new URL(normalized).origin === origin ? segmentIndex ?? 0 : 0);
+    versions.push({
+      name,
+      url: normalized,
+      scope,
+      exclude: [],
+      current: false
+    });
+  }
+
+  // 范围包含其他版本时 (例如最新版本位于 /docs/,旧版本位于 /docs/2.x/),排除其他版本
+  for (const version of versions) {
+    version.exclude = versions
+      .filter(other => other !== version && other.scope !== version.scope && other.scope.startsWith(version.scope))
+      .map(other => other.scope);
+  }
+
+  const entry = versions.find(version => isInVersion(pageUrl, version));
+  if (entry) {
+    entry.current = true;
+  }
+
+  return versions.sort((a, b) => {
+    if (isNumbered(a.name) !== isNumbered(b.name)) {
+      return isNumbered(a.name) ? 1 : -1;
+    }
+    return isNumbered(a.name) ? compareVersions(a.name, b.name) : 0;
+  });
+}
+
+/**
+ * 判断页面是否属于某个版本
+ * @param url 页面 URL
+ * @param version 文档版本
+ */
+export function isInVersion(url: string, version: DocVersion): boolean {
+  return isInScope(url, version.scope) && !version.exclude.some(scope => isInScope(url, scope));
+}
+
+/**
+ * 从版本列表中选择版本
+ * "latest" 依次选择 latest、stable、current 别名和最新的数字版本;
+ * 其他版本名忽略大小写、开头的 v 和结尾的 .x 进行比较 (例如 "3" 匹配 "v3" 和 "3.x"),
+ * 没有完全相同的版本时选择以其开头的最新版本 (例如 "5" 匹配 "5.1")
+ * @param versions 版本列表 (detectVersions 的结果)
+ * @param wanted 版本名或 "latest"
+ * @returns 选择的版本,没有匹配的版本时返回 undefined
+ */
+export function selectVersion(versions: DocVersion[], wanted: string): DocVersion | undefined {
+  const target = normalizeVersion(wanted.trim());
+
+  if (target === LATEST_VERSION) {
+    for (const alias of LATEST_ALIASES) {
+      const version = versions.find(candidate => normalizeVersion(candidate.name) === alias);
+      if (version) {
+        return version;
+      }
+    }
+    return versions.filter(version => isNumbered(version.name)).sort((a, b) => compareVersions(a.name, b.name))[0];
+  }
+
+  return versions.find(version => normalizeVersion(version.name) === target)
+    ?? versions
+      .filter(version => isNumbered(version.name) && normalizeVersion(version.name).startsWith(`${target}.`))
+      .sort((a, b) => compareVersions(a.name, b.name))[0];
+}
+
+/**
+ * 推测版本切换菜单没有列出的版本 (例如切换菜单由脚本生成)
+ * 替换入口 URL 中的版本段,使用该版本的根路径作为入口
+ * @param pageUrl 入口 URL
+ * @param wanted 版本名
+ * @returns 推测的版本,入口 URL 没有版本段或版本名不像版本号时返回 undefined
+ */
+export function guessVersion(pageUrl: string, wanted: string): DocVersion | undefined {
+  const current = versionSegment(pageUrl);
+  let name = wanted.trim();
+  if (!current || name.toLowerCase() === LATEST_VERSION) {
+    return undefined;
+  }
+  // 沿用入口 URL 的写法: 入口为 /v2/ 时 "3" 推测为 /v3/
+  if (/^v\d/i.test(current.name) && /^\d/.test(name)) {
+    name = `v${name}`;
+  }
+  if (!VERSION_SEGMENT.test(name)) {
+    return undefined;
+  }
+
+  const scope = prefixScope(pageUrl, current.index) + `${name}/`;
+  return { name, url: scope, scope, exclude: [], current: false };
+}
+
+/**
+ * 生成版本的输出目录名
+ * @param version 文档版本
+ */
+export function versionDirName(version: DocVersion): string {
+  return version.name.replace(/[^\w.-]+/g, '-');
+}
+
+/**
+ * 获取入口页面并识别文档版本
+ * 页面获取失败时只使用 URL 中的版本段
+ * @param url 入口 URL
+ * @param options 请求选项
+ * @returns 版本列表
+ */
+export async function fetchVersions(url: string, options: RequestOptions = {}): Promise<DocVersion[]> {
+  try {
+    const response = await httpFetch(url, options);
+    if (response.ok) {
+      return detectVersions(await response.text(), url);
+    }
+    await response.body?.cancel();
+  } catch (error) {
+    options.signal?.throwIfAborted();
+  }
+  return detectVersions('', url);
+}
@@ -0,0 +1,80 @@
+// assets.test.ts - 资源下载测试
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AssetStore, type AssetFetcher } from '../src/assets';
+
+let outputDir: string;
+
+beforeEach(() => {
+  outputDir = mkdtempSync(join(tmpdir(), 'markgrab-assets-'));
+});
+
+afterEach(() => {
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+/**
+ * 分块返回内容且没有 Content-Length 的响应,记录读取的块数和是否被取消
+ */
+function streamedResponse(chunks: number, chunkSize: number) {
+  const stream = { read: 0, cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stream.read === chunks) {
+        controller.close();
+        return;
+      }
+      stream.read++;
+      controller.enqueue(new Uint8Array(chunkSize));
+    },
+    cancel() {
+      stream.cancelled = true;
+    }
+  });
+  return { response: new Response(body, { headers: { 'content-type': 'image/png' } }), stream };
+}
+
+describe('AssetStore', () => {
+  test('下载图片并改写为本地路径', async () => {
+    const store = new AssetStore(outputDir);
+    const fetchAsset: AssetFetcher = async () => streamedResponse(2, 10).response;
+    const markdown = await store.localize('![a](/img/a.png)', 'https://example.com/docs/page', 'docs/page.md', fetchAsset);
+
+    const [file] = store.localFiles();
+    expect(markdown).toBe(`![a](../${file})`);
+    expect(existsSync(join(outputDir, file!))).toBe(true);
+  });
+
+  test('没有 Content-Length 时超过大小上限后停止下载,并改为绝对地址', async () => {
+    const store = new AssetStore(outputDir, { maxSize: 25 });
+    const { response, stream } = streamedResponse(100, 10);
+    const markdown = await store.localize('![a](/big.png)', 'https://example.com/', 'index.md', async () => response);
+
+    expect(markdown).toBe('![a](https://example.com/big.png)');
+    expect(stream.cancelled).toBe(true);
+    expect(stream.read).toBeLessThan(100);
+    expect(store.summary()).toBe('1 个超过大小限制');
+  });
+
+  test('资源的重试单独统计', async () => {
+    const store = new AssetStore(outputDir);
+    const fetchAsset: AssetFetcher = async (url, onRetry) => {
+      onRetry({ attempt: 1, delay: 0, reason: 'HTTP 503' });
+      return streamedResponse(1, 10).response;
+    };
+    await store.localize('![a](/a.png)', 'https://example.com/', 'index.md', fetchAsset);
+
+    expect(store.summary()).toBe('1 个文件, 1 次重试');
+  });
+
+  test('下载失败的资源改为绝对地址', async () => {
+    const store = new AssetStore(outputDir);
+    const fetchAsset: AssetFetcher = async () => new Response(null, { status: 404 });
+    const markdown = await store.localize('![a](img/a.png#x) [b](b.html)', 'https://example.com/docs/', 'docs/index.md', fetchAsset);
+
+    expect(markdown).toBe('![a](https://example.com/docs/img/a.png#x) [b](b.html)');
+    expect(store.summary()).toBe('1 个下载失败');
+  });
+});
@@ -0,0 +1,62 @@
+// auth.test.ts - 认证和 cookies.txt 测试
+import { afterEach, describe, expect, test } from 'bun:test';
+import { parseCookiesTxt, cookieHeader, RequestAuth } from '../src/auth';
+
+const COOKIES_TXT = [
+  '# Netscape HTTP Cookie File',
+  '.example.com\tTRUE\t/\tFALSE\t0\tsite\t1',
+  '#HttpOnly_docs.example.com\tFALSE\t/guide\tTRUE\t0\tsession\tabc',
+  'example.com\tFALSE\t/\tFALSE\t1\texpired\tx',
+  ''
+].join('\n');
+
+describe('parseCookiesTxt', () => {
+  test('解析 #HttpOnly_ 前缀的行并跳过注释', () => {
+    const cookies = parseCookiesTxt(COOKIES_TXT);
+
+    expect(cookies.map(cookie => cookie.name)).toEqual(['site', 'session', 'expired']);
+    expect(cookies[0]).toMatchObject({ domain: 'example.com', includeSubdomains: true });
+    expect(cookies[1]).toMatchObject({ domain: 'docs.example.com', path: '/guide', secure: true, value: 'abc' });
+  });
+});
+
+describe('cookieHeader', () => {
+  const cookies = parseCookiesTxt(COOKIES_TXT);
+
+  test('按域名和路径匹配,并跳过过期的 Cookie', () => {
+    expect(cookieHeader(cookies, 'https://docs.example.com/guide/intro')).toBe('site=1; session=abc');
+    expect(cookieHeader(cookies, 'https://docs.example.com/guide')).toBe('site=1; session=abc');
+    expect(cookieHeader(cookies, 'https://docs.example.com/guidebook')).toBe('site=1');
+    expect(cookieHeader(cookies, 'https://example.com/')).toBe('site=1');
+  });
+
+  test('仅 HTTPS 的 Cookie 不通过 HTTP 发送', () => {
+    expect(cookieHeader(cookies, 'http://docs.example.com/guide')).toBe('site=1');
+  });
+
+  test('没有匹配的 Cookie 时返回 undefined', () => {
+    expect(cookieHeader(cookies, 'https://notexample.com/')).toBeUndefined();
+  });
+});
+
+describe('RequestAuth', () => {
+  afterEach(() => {
+    delete process.env.MARKGRAB_TEST_CREDENTIALS;
+  });
+
+  test('从环境变量读取 Basic 认证,只发送给入口主机', () => {
+    process.env.MARKGRAB_TEST_CREDENTIALS = 'user:secret';
+    const auth = RequestAuth.load('https://docs.example.com/', { basicAuthEnv: 'MARKGRAB_TEST_CREDENTIALS' })!;
+
+    expect(auth.headersFor('https://docs.example.com/guide')).toEqual({
+      Authorization: `Basic ${Buffer.from('user:secret').toString('base64')}`
+    });
+    expect(auth.headersFor('https://cdn.example.com/a.png')).toEqual({});
+    expect(auth.describe()).not.toContain('secret');
+  });
+
+  test('环境变量未设置时报错', () => {
+    expect(() => RequestAuth.load('https://docs.example.com/', { basicAuthEnv: 'MARKGRAB_TEST_CREDENTIALS' }))
+      .toThrow('环境变量 MARKGRAB_TEST_CREDENTIALS 未设置');
+  });
+});
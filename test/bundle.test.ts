@@ -0,0 +1,68 @@
+// bundle.test.ts - 合并文件测试
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { writeBundle, isBundleFile } from '../src/bundle';
+import { outputFile } from '../src/layout';
+
+let outputDir: string;
+
+const links = [
+  { url: 'https://example.com/docs/a', title: 'A', file: 'a.md' },
+  { url: 'https://example.com/docs/b', title: 'B', file: 'b.md' }
+];
+
+beforeEach(() => {
+  outputDir = mkdtempSync(join(tmpdir(), 'markgrab-bundle-'));
+  writeFileSync(join(outputDir, 'a.md'), '# Page A\n\nSee [B](b.md).\n');
+  writeFileSync(join(outputDir, 'b.md'), '# Page B\n\n## Usage\n\nText.\n');
+});
+
+afterEach(() => {
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+describe('writeBundle', () => {
+  test('合并文件保存在输出目录下的 _bundle.md', async () => {
+    const files = await writeBundle(links, outputDir, { title: 'example.com' });
+    expect(files.map(file => file.path)).toEqual([join(outputDir, '_bundle.md')]);
+
+    const content = await Bun.file(files[0]!.path).text();
+    expect(content.startsWith('# example.com\n\n2 pages')).toBe(true);
+    expect(content).toContain('See [B](#page-b).');
+    expect(content).toContain('### Usage');
+  });
+
+  test('拆分时依次命名为 _bundle-1.md、_bundle-2.md', async () => {
+    const files = await writeBundle(links, outputDir, { maxSize: 1 });
+    expect(files.map(file => file.path)).toEqual([join(outputDir, '_bundle-1.md'), join(outputDir, '_bundle-2.md')]);
+    expect(await Bun.file(files[0]!.path).text()).toContain('See [B](_bundle-2.md#page-b).');
+  });
+
+  test('只删除上次记录的合并文件', async () => {
+    writeFileSync(join(outputDir, '_bundle-1.md'), 'old');
+    writeFileSync(join(outputDir, '_bundle-2.md'), 'not recorded');
+    await writeBundle(links, outputDir, {}, ['_bundle-1.md', 'a.md']);
+
+    expect(existsSync(join(outputDir, '_bundle-1.md'))).toBe(false);
+    expect(existsSync(join(outputDir, '_bundle-2.md'))).toBe(true);
+    expect(existsSync(join(outputDir, 'a.md'))).toBe(true);
+    expect(existsSync(join(outputDir, '_bundle.md'))).toBe(true);
+  });
+});
+
+describe('合并文件的保留文件名', () => {
+  test('识别合并文件名', () => {
+    expect(isBundleFile('_bundle.md')).toBe(true);
+    expect(isBundleFile('_bundle-3.md')).toBe(true);
+    expect(isBundleFile('docs/_bundle.md')).toBe(false);
+    expect(isBundleFile('bundle.md')).toBe(false);
+  });
+
+  test('页面文件名不会与合并文件相同', () => {
+    expect(outputFile({ url: 'https://example.com/_bundle.md', title: '' }, 'path')).toBe('_bundle_.md');
+    expect(outputFile({ url: 'https://example.com/_bundle-2', title: '' }, 'path')).toBe('_bundle-2_.md');
+    expect(outputFile({ url: 'https://example.com/docs/_bundle', title: '' }, 'path')).toBe('docs/_bundle.md');
+  });
+});
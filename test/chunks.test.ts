@@ -0,0 +1,39 @@
+// chunks.test.ts - chunkMarkdown 测试
+import { describe, expect, test } from 'bun:test';
+import { chunkMarkdown } from '../src/chunks';
+
+describe('chunkMarkdown', () => {
+  test('子节在不超过目标大小时合并到所在标题的分块中', () => {
+    const chunks = chunkMarkdown('# Guide\n\nIntro.\n\n## Install\n\nRun it.\n\n## Usage\n\nUse it.\n');
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.breadcrumb).toEqual(['Guide']);
+    expect(chunks[0]!.content).toBe('# Guide\n\nIntro.\n\n## Install\n\nRun it.\n\n## Usage\n\nUse it.');
+  });
+
+  test('超过目标大小时下一节开始新的分块并记录标题路径', () => {
+    const paragraph = 'word '.repeat(40).trim();
+    const chunks = chunkMarkdown(`# Guide\n\n## Install\n\n${paragraph}\n\n## Usage\n\n${paragraph}\n`, 60);
+    expect(chunks.map(chunk => chunk.breadcrumb)).toEqual([['Guide'], ['Guide', 'Usage']]);
+    expect(chunks[1]!.content.startsWith('## Usage')).toBe(true);
+    expect(chunks.every(chunk => chunk.tokens <= 60)).toBe(true);
+  });
+
+  test('过长的节按段落拆分,标题与第一段在同一个分块中', () => {
+    const paragraph = 'word '.repeat(40).trim();
+    const chunks = chunkMarkdown(`## Long\n\n${paragraph}\n\n${paragraph}\n\n${paragraph}\n`, 60);
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0]!.content.startsWith(`## Long\n\n${paragraph}`)).toBe(true);
+    expect(chunks.every(chunk => chunk.breadcrumb[0] === 'Long')).toBe(true);
+  });
+
+  test('围栏代码块不会被拆开', () => {
+    const code = '```js\n' + 'const a = 1;\n\n'.repeat(30) + '```';
+    const chunks = chunkMarkdown(`## Code\n\nExample:\n\n${code}\n\nAfter.\n`, 40);
+    expect(chunks.some(chunk => chunk.content.includes(code))).toBe(true);
+  });
+
+  test('忽略 front matter', () => {
+    const chunks = chunkMarkdown('---\ntitle: "A"\n---\n\n# A\n\nText.\n');
+    expect(chunks).toEqual([{ breadcrumb: ['A'], content: '# A\n\nText.', tokens: expect.any(Number) }]);
+  });
+});
@@ -0,0 +1,72 @@
+// compact.test.ts - compactMarkdown 测试
+import { describe, expect, test } from 'bun:test';
+import { compactMarkdown, shortenUrl } from '../src/compact';
+
+const BASE = 'https://example.com/docs/page';
+
+describe('compactMarkdown', () => {
+  test('合并多余的空行和空格', () => {
+    expect(compactMarkdown('# Title\n\n\n\nSome   text  here\n\n\n', BASE)).toBe('# Title\n\nSome text here\n');
+  });
+
+  test('围栏代码块保持不变', () => {
+    const markdown = '```python\ndef f():\n    return  1\n\n\n\n```\n';
+    expect(compactMarkdown(markdown, BASE)).toBe(markdown);
+  });
+
+  test('块引用中的围栏代码块保持不变', () => {
+    const markdown = '> Note:\n>\n> ```python\n> def f():\n>     return  1\n> ```\n\nafter   text\n';
+    expect(compactMarkdown(markdown, BASE)).toBe('> Note:\n>\n> ```python\n> def f():\n>     return  1\n> ```\n\nafter text\n');
+  });
+
+  test('嵌套块引用中的围栏在块引用结束时结束', () => {
+    const markdown = '> > ```\n> > a  b\n\nc   d\n';
+    expect(compactMarkdown(markdown, BASE)).toBe('> > ```\n> > a  b\n\nc d\n');
+  });
+
+  test('列表项中的围栏代码块保持不变', () => {
+    const markdown = '- ```js\n  const  a = 1;\n  ```\n- item   two\n';
+    expect(compactMarkdown(markdown, BASE)).toBe('- ```js\n  const  a = 1;\n  ```\n- item two\n');
+  });
+
+  test('行内代码保持不变', () => {
+    expect(compactMarkdown('some   words `a  b` here\n', BASE)).toBe('some words `a  b` here\n');
+  });
+
+  test('移除 data URI 图片和空链接', () => {
+    expect(compactMarkdown('text ![x](data:image/png;base64,AAAA) [](https://a.com) end\n', BASE)).toBe('text end\n');
+  });
+
+  test('stripImages 移除所有图片', () => {
+    expect(compactMarkdown('![logo](/logo.png)\n\ntext\n', BASE, { stripImages: true })).toBe('text\n');
+  });
+
+  test('文字与地址相同的链接改为自动链接', () => {
+    expect(compactMarkdown('[https://a.com/x](https://a.com/x)\n', BASE)).toBe('<https://a.com/x>\n');
+  });
+
+  test('front matter 保持不变', () => {
+    const frontMatter = '---\ntitle:   "A"\n---\n\n';
+    expect(compactMarkdown(`${frontMatter}a   b\n`, BASE)).toBe(`${frontMatter}a b\n`);
+  });
+});
+
+describe('shortenUrl', () => {
+  const base = new URL(BASE);
+
+  test('同站点的绝对地址改为从根路径开始的地址', () => {
+    expect(shortenUrl('https://example.com/docs/other?utm_source=x', base)).toBe('/docs/other');
+  });
+
+  test('指向当前页面的锚点只保留 #fragment', () => {
+    expect(shortenUrl('https://example.com/docs/page#intro', base)).toBe('#intro');
+  });
+
+  test('其他站点的地址只移除跟踪参数', () => {
+    expect(shortenUrl('https://other.com/a?fbclid=1&q=2', base)).toBe('https://other.com/a?q=2');
+  });
+
+  test('没有跟踪参数的相对地址保持不变', () => {
+    expect(shortenUrl('../guide', base)).toBe('../guide');
+  });
+});
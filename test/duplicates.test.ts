@@ -0,0 +1,97 @@
+// duplicates.test.ts - 重复页面检测测试
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findDuplicates, removeDuplicates } from '../src/duplicates';
+import { Manifest, hashContent, type ManifestEntry } from '../src/manifest';
+
+let outputDir: string;
+
+beforeEach(() => {
+  outputDir = mkdtempSync(join(tmpdir(), 'markgrab-duplicates-'));
+});
+
+afterEach(() => {
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+/**
+ * 写入页面文件并生成清单记录
+ */
+function page(name: string, content: string, extra: Partial<ManifestEntry> = {}): ManifestEntry {
+  const file = `${name}.md`;
+  writeFileSync(join(outputDir, file), content);
+  const url = `https://example.com/${name}`;
+  return {
+    url,
+    file,
+    contentUrl: url,
+    hash: hashContent(content),
+    tokens: 0,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...extra
+  };
+}
+
+/**
+ * 生成一段不重复的文字
+ */
+function words(count: number, prefix: string): string {
+  return Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+}
+
+const links = (entries: ManifestEntry[]) => entries.map(entry => ({ url: entry.url, title: entry.url }));
+
+describe('findDuplicates', () => {
+  test('规范地址指向另一个页面时视为重复', async () => {
+    const kept = page('guide', words(50, 'a'));
+    const alias = page('guide-old', words(50, 'b'), { canonicalUrl: 'https://example.com/guide/' });
+
+    const duplicates = await findDuplicates(links([kept, alias]), [kept, alias], outputDir);
+    expect(duplicates).toMatchObject([{ url: alias.url, duplicateOf: kept.url, reason: 'canonical' }]);
+  });
+
+  test('内容相同的页面保留第一个', async () => {
+    const first = page('a', 'same content');
+    const second = page('b', 'same content');
+
+    const duplicates = await findDuplicates(links([second, first]), [first, second], outputDir);
+    expect(duplicates).toMatchObject([{ url: first.url, duplicateOf: second.url, reason: 'identical' }]);
+  });
+
+  test('内容高度相似的页面按阈值判断为重复', async () => {
+    const text = words(400, 'w');
+    const first = page('a', text);
+    const second = page('b', `${text} extra`);
+    const other = page('c', words(400, 'x'));
+
+    const duplicates = await findDuplicates(links([first, second, other]), [first, second, other], outputDir, 0.8);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ url: second.url, duplicateOf: first.url, reason: 'similar' });
+    expect(duplicates[0]!.similarity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  test('内容太短的页面只比较完全相同的内容', async () => {
+    const first = page('a', 'short page one');
+    const second = page('b', 'short page two');
+    expect(await findDuplicates(links([first, second]), [first, second], outputDir, 0.1)).toEqual([]);
+  });
+});
+
+describe('removeDuplicates', () => {
+  test('删除文件并在清单中保留重复页面的记录', async () => {
+    const kept = page('a', 'same content');
+    const duplicate = page('b', 'same content');
+    const manifest = await Manifest.load(outputDir);
+    manifest.set(kept);
+    manifest.set(duplicate);
+
+    removeDuplicates(await findDuplicates(links([kept, duplicate]), manifest.all(), outputDir), manifest, outputDir);
+
+    expect(existsSync(join(outputDir, duplicate.file))).toBe(false);
+    expect(manifest.duplicateOf(duplicate.url)).toBe(kept.url);
+    expect(manifest.get(duplicate.url)).toBeUndefined();
+    expect(manifest.all().map(entry => entry.url)).toEqual([kept.url]);
+  });
+});
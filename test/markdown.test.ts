@@ -0,0 +1,58 @@
+// markdown.test.ts - htmlToMarkdown 代码块和任务列表测试
+import { describe, expect, test } from 'bun:test';
+import { htmlToMarkdown, detectLanguage } from '../src/markdown';
+
+describe('htmlToMarkdown 代码块', () => {
+  test('Pygments 行号表格替换为代码块', () => {
+    const html = '<table class="highlighttable"><tr><td class="linenos"><pre>1\n2</pre></td>'
+      + '<td class="code"><div class="highlight"><pre><span>a = 1</span>\nb = 2\n</pre></div></td></tr></table>';
+    expect(htmlToMarkdown(html).trim()).toBe('```\na = 1\nb = 2\n```');
+  });
+
+  test('只有代码的单列表格替换为代码块', () => {
+    const html = '<table><tr><td><pre><code class="language-js">let a = 1;</code></pre></td></tr></table>';
+    expect(htmlToMarkdown(html).trim()).toBe('```js\nlet a = 1;\n```');
+  });
+
+  test('包含其他内容的表格保留其他行', () => {
+    const html = '<table><tr><th>Example</th></tr><tr><td>Run this:</td></tr>'
+      + '<tr><td><pre><code>npm install</code></pre></td></tr></table>';
+    const markdown = htmlToMarkdown(html);
+    expect(markdown).toContain('Example');
+    expect(markdown).toContain('Run this:');
+    expect(markdown).toContain('npm install');
+  });
+
+  test('移除复制按钮', () => {
+    const html = '<div><button class="copy-button">Copy</button><pre><code class="language-bash">ls</code></pre></div>';
+    expect(htmlToMarkdown(html).trim()).toBe('```bash\nls\n```');
+  });
+
+  test('Shiki 的 span.line 之间没有换行符时按行拆分', () => {
+    const html = '<pre class="shiki"><code><span class="line"><span>fn a() {}</span></span>'
+      + '<span class="line"></span><span class="line"><span>let x;</span></span></code></pre>';
+    expect(htmlToMarkdown(html).trim()).toBe('```\nfn a() {}\n\nlet x;\n```');
+  });
+
+  test('Shiki 的 span.line 之间已有换行符时不重复换行', () => {
+    const html = '<pre class="shiki"><code><span class="line">fn a() {}</span>\n<span class="line">let x;</span></code></pre>';
+    expect(htmlToMarkdown(html).trim()).toBe('```\nfn a() {}\nlet x;\n```');
+  });
+});
+
+describe('htmlToMarkdown 任务列表', () => {
+  test('复选框与文字之间只有一个空格', () => {
+    const html = '<ul><li><input type="checkbox" checked> done</li><li><input type="checkbox">todo</li></ul>';
+    expect(htmlToMarkdown(html).trim()).toBe('*   [x] done\n*   [ ] todo');
+  });
+});
+
+describe('detectLanguage', () => {
+  test('从类名中识别语言', () => {
+    expect(detectLanguage('highlight language-python')).toBe('python');
+  });
+
+  test('没有语言时返回 undefined', () => {
+    expect(detectLanguage('highlight')).toBeUndefined();
+  });
+});
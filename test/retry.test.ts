@@ -0,0 +1,79 @@
+// retry.test.ts - 重试逻辑测试
+import { describe, expect, test } from 'bun:test';
+import { parseRetryAfter, isRetryableError, fetchWithRetry, type RetryInfo } from '../src/retry';
+
+describe('parseRetryAfter', () => {
+  test('解析秒数', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+  });
+
+  test('解析 HTTP 日期', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  test('无法解析时返回 undefined', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  test('识别超时和 cause 中的网络错误码', () => {
+    expect(isRetryableError(new DOMException('timed out', 'TimeoutError'))).toBe(true);
+    expect(isRetryableError(new Error('fetch failed', { cause: { code: 'ECONNRESET' } }))).toBe(true);
+    expect(isRetryableError(new Error('bad request'))).toBe(false);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  /**
+   * 按顺序返回指定状态码的响应
+   */
+  function responses(...statuses: number[]) {
+    let calls = 0;
+    const doFetch = async () => {
+      const status = statuses[Math.min(calls, statuses.length - 1)]!;
+      calls++;
+      return new Response(null, { status, headers: status === 429 ? { 'Retry-After': '0' } : {} });
+    };
+    return { doFetch, calls: () => calls };
+  }
+
+  test('可重试的状态码重试后返回成功的响应', async () => {
+    const { doFetch, calls } = responses(503, 429, 200);
+    const retries: RetryInfo[] = [];
+
+    const response = await fetchWithRetry(doFetch, { baseDelay: 1, onRetry: info => retries.push(info) });
+
+    expect(response.status).toBe(200);
+    expect(calls()).toBe(3);
+    expect(retries.map(info => info.reason)).toEqual(['HTTP 503', 'HTTP 429']);
+    expect(retries[1]!.delay).toBe(0);
+  });
+
+  test('不可重试的状态码直接返回', async () => {
+    const { doFetch, calls } = responses(404);
+    expect((await fetchWithRetry(doFetch, { baseDelay: 1 })).status).toBe(404);
+    expect(calls()).toBe(1);
+  });
+
+  test('重试次数用完后返回最后一次的响应', async () => {
+    const { doFetch, calls } = responses(500);
+    expect((await fetchWithRetry(doFetch, { maxRetries: 2, baseDelay: 1 })).status).toBe(500);
+    expect(calls()).toBe(3);
+  });
+
+  test('不可重试的错误直接抛出', async () => {
+    let calls = 0;
+    const doFetch = async (): Promise<Response> => {
+      calls++;
+      throw new Error('bad request');
+    };
+
+    await expect(fetchWithRetry(doFetch, { baseDelay: 1 })).rejects.toThrow('bad request');
+    expect(calls).toBe(1);
+  });
+});
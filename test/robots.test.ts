@@ -0,0 +1,90 @@
+// robots.test.ts - robots.txt 解析和访问规则测试
+import { afterAll, describe, expect, test } from 'bun:test';
+import { parseRobotsTxt, isAllowed, getCrawlDelay, fetchRobotsTxt } from '../src/robots';
+
+describe('parseRobotsTxt', () => {
+  test('连续的 User-agent 行属于同一个分组,并解析 Sitemap 和 Crawl-delay', () => {
+    const robots = parseRobotsTxt(
+      'User-agent: a\nUser-agent: B\nDisallow: /x\nCrawl-delay: 2\n\nUser-agent: *\nAllow: /\nSitemap: /sitemap.xml\n',
+      'https://a.com/robots.txt'
+    );
+
+    expect(robots.groups).toEqual([
+      { userAgents: ['a', 'b'], rules: [{ allow: false, pattern: '/x' }], crawlDelay: 2 },
+      { userAgents: ['*'], rules: [{ allow: true, pattern: '/' }] }
+    ]);
+    expect(robots.sitemaps).toEqual(['https://a.com/sitemap.xml']);
+    expect(getCrawlDelay(robots, 'a')).toBe(2);
+  });
+});
+
+describe('isAllowed', () => {
+  test('支持 * 通配符和 $ 结尾锚点', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /private*/\n');
+
+    expect(isAllowed(robots, 'https://a.com/files/a.pdf')).toBe(false);
+    expect(isAllowed(robots, 'https://a.com/files/a.pdf?download=1')).toBe(true);
+    expect(isAllowed(robots, 'https://a.com/private-docs/guide')).toBe(false);
+    expect(isAllowed(robots, 'https://a.com/docs/guide')).toBe(true);
+  });
+
+  test('使用最长匹配的规则', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow: /docs/\nAllow: /docs/public/\n');
+
+    expect(isAllowed(robots, 'https://a.com/docs/internal')).toBe(false);
+    expect(isAllowed(robots, 'https://a.com/docs/public/guide')).toBe(true);
+  });
+
+  test('长度相同时 Allow 优先', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page\n');
+    expect(isAllowed(robots, 'https://a.com/page')).toBe(true);
+  });
+
+  test('名称匹配的分组优先于 * 分组', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: markgrab\nDisallow: /admin\n');
+
+    expect(isAllowed(robots, 'https://a.com/docs')).toBe(true);
+    expect(isAllowed(robots, 'https://a.com/admin')).toBe(false);
+    expect(isAllowed(robots, 'https://a.com/docs', 'otherbot')).toBe(false);
+  });
+});
+
+describe('fetchRobotsTxt', () => {
+  let status = 200;
+  const server = Bun.serve({
+    port: 0,
+    fetch: () => new Response('User-agent: *\nDisallow: /private\n', { status })
+  });
+  const baseUrl = `http://localhost:${server.port}/docs/`;
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('4xx 时视为允许所有路径', async () => {
+    status = 404;
+    expect(await fetchRobotsTxt(baseUrl)).toBeNull();
+  });
+
+  test('5xx 时禁止所有路径', async () => {
+    status = 503;
+    const robots = await fetchRobotsTxt(baseUrl);
+
+    expect(robots?.unavailable).toBe(true);
+    expect(isAllowed(robots!, `${baseUrl}guide`)).toBe(false);
+  });
+
+  test('无法访问时禁止所有路径', async () => {
+    const robots = await fetchRobotsTxt('http://127.0.0.1:1/docs/');
+    expect(robots?.unavailable).toBe(true);
+  });
+
+  test('成功时解析内容', async () => {
+    status = 200;
+    const robots = await fetchRobotsTxt(baseUrl);
+
+    expect(robots?.unavailable).toBeUndefined();
+    expect(isAllowed(robots!, `${baseUrl}guide`)).toBe(true);
+    expect(isAllowed(robots!, `http://localhost:${server.port}/private`)).toBe(false);
+  });
+});
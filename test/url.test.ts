@@ -0,0 +1,48 @@
+// url.test.ts - URL 规范化测试
+import { describe, expect, test } from 'bun:test';
+import { canonicalizeUrl, resolveCanonicalUrl, pageKey, isInScope } from '../src/url';
+
+describe('canonicalizeUrl', () => {
+  test('移除 #fragment 和跟踪参数', () => {
+    expect(canonicalizeUrl('https://a.com/docs?utm_source=x&q=1&fbclid=2#intro')).toBe('https://a.com/docs?q=1');
+  });
+
+  test('移除指定的查询参数 (支持 * 通配符)', () => {
+    expect(canonicalizeUrl('https://a.com/docs?tab=npm&lang=js&v=2', ['tab', 'la*'])).toBe('https://a.com/docs?v=2');
+  });
+
+  test('无效的 URL 返回 null', () => {
+    expect(canonicalizeUrl('not a url')).toBeNull();
+  });
+});
+
+describe('pageKey', () => {
+  test('末尾斜杠、index 文件和页面扩展名对应同一个页面', () => {
+    const key = pageKey('https://a.com/docs/guide');
+    expect(pageKey('https://a.com/docs/guide/')).toBe(key);
+    expect(pageKey('https://a.com/docs/guide/index.html')).toBe(key);
+    expect(pageKey('https://a.com/docs/guide.md')).toBe(key);
+  });
+
+  test('忽略查询参数的顺序', () => {
+    expect(pageKey('https://a.com/x?b=2&a=1')).toBe(pageKey('https://a.com/x?a=1&b=2'));
+  });
+});
+
+describe('resolveCanonicalUrl', () => {
+  test('相对的规范地址解析为绝对地址', () => {
+    expect(resolveCanonicalUrl('/docs/guide?utm_medium=x', 'https://a.com/old/guide')).toBe('https://a.com/docs/guide');
+  });
+
+  test('规范地址与页面本身相同时返回 undefined', () => {
+    expect(resolveCanonicalUrl('https://a.com/docs/guide/', 'https://a.com/docs/guide')).toBeUndefined();
+  });
+});
+
+describe('isInScope', () => {
+  test('按前缀匹配,并包含不带斜杠的目录本身', () => {
+    expect(isInScope('https://a.com/docs/guide', 'https://a.com/docs/')).toBe(true);
+    expect(isInScope('https://a.com/docs', 'https://a.com/docs/')).toBe(true);
+    expect(isInScope('https://a.com/blog/post', 'https://a.com/docs/')).toBe(false);
+  });
+});
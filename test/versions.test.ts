@@ -0,0 +1,65 @@
+// versions.test.ts - 文档版本识别测试
+import { describe, expect, test } from 'bun:test';
+import { detectVersions, selectVersion, guessVersion, isInVersion, versionSegment } from '../src/versions';
+
+describe('versionSegment', () => {
+  test('识别路径中的版本段', () => {
+    expect(versionSegment('https://a.com/docs/v2/guide')).toEqual({ index: 1, name: 'v2' });
+    expect(versionSegment('https://a.com/docs/5.0/')).toEqual({ index: 1, name: '5.0' });
+    expect(versionSegment('https://a.com/docs/guide')).toBeNull();
+  });
+});
+
+describe('detectVersions', () => {
+  test('识别版本切换菜单和只有版本段不同的链接', () => {
+    const html = '<div class="version-switcher"><a href="/docs/v3/">v3</a><a href="/docs/latest/">Latest</a></div>'
+      + '<a href="/docs/v1/guide">old guide</a><a href="/blog/v9/">blog</a>';
+    const versions = detectVersions(html, 'https://a.com/docs/v2/guide');
+
+    expect(versions.map(version => version.name)).toEqual(['latest', 'v3', 'v2', 'v1']);
+    expect(versions.find(version => version.current)?.name).toBe('v2');
+    expect(versions.find(version => version.name === 'v3')?.scope).toBe('https://a.com/docs/v3/');
+  });
+
+  test('没有版本段的最新版本排除其他版本的范围', () => {
+    const html = '<select class="version"><option value="/docs/">5.1 (stable)</option><option value="/docs/2.x/">2.x</option></select>';
+    const versions = detectVersions(html, 'https://a.com/docs/');
+    const stable = versions.find(version => version.name === '5.1')!;
+
+    expect(stable.scope).toBe('https://a.com/docs/');
+    expect(stable.exclude).toEqual(['https://a.com/docs/2.x/']);
+    expect(isInVersion('https://a.com/docs/guide', stable)).toBe(true);
+    expect(isInVersion('https://a.com/docs/2.x/guide', stable)).toBe(false);
+  });
+
+  test('没有版本时返回空数组', () => {
+    expect(detectVersions('<a href="/docs/guide">Guide</a>', 'https://a.com/docs/')).toEqual([]);
+  });
+});
+
+describe('selectVersion', () => {
+  const versions = detectVersions(
+    '<div class="versions"><a href="/docs/stable/">stable</a><a href="/docs/5.1/">5.1</a><a href="/docs/5.0/">5.0</a><a href="/docs/v4/">v4</a></div>',
+    'https://a.com/docs/5.0/'
+  );
+
+  test('latest 优先选择版本别名', () => {
+    expect(selectVersion(versions, 'latest')?.name).toBe('stable');
+  });
+
+  test('忽略开头的 v 并选择以其开头的最新版本', () => {
+    expect(selectVersion(versions, '4')?.name).toBe('v4');
+    expect(selectVersion(versions, '5')?.name).toBe('5.1');
+    expect(selectVersion(versions, '6')).toBeUndefined();
+  });
+});
+
+describe('guessVersion', () => {
+  test('沿用入口 URL 的版本段写法', () => {
+    expect(guessVersion('https://a.com/docs/v2/guide', '3')).toMatchObject({ name: 'v3', url: 'https://a.com/docs/v3/' });
+  });
+
+  test('入口 URL 没有版本段时无法推测', () => {
+    expect(guessVersion('https://a.com/docs/guide', '3')).toBeUndefined();
+  });
+});